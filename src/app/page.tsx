@@ -1,12 +1,22 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState, type CSSProperties } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+} from "react";
 import dynamic from "next/dynamic";
 import {
+  AlertTriangle,
   Briefcase,
   Copy,
   FileDown,
   FileText,
+  Gauge,
   Headset,
   HelpCircle,
   StickyNote,
@@ -20,8 +30,37 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { useInterviewStore, type DocumentPayload } from "@/hooks/useInterviewStore";
+import {
+  useInterviewStore,
+  type DocumentPayload,
+  type InterviewAnalysis,
+  type LogDetails,
+} from "@/hooks/useInterviewStore";
+import { clearAudioArchive } from "@/lib/audio-archive";
+import { filterSuppressedLogs } from "@/lib/bleed-detection";
+import type { AudioHealthWarning } from "@/lib/capture-health";
 import { downloadAsText, downloadAsWord } from "@/lib/export";
+import { createTranscriptionProvider } from "@/lib/transcription-provider";
+import { clearTranscriptionBacklog } from "@/lib/transcription-backlog";
+import { parseHallucinationPhrases } from "@/lib/hallucination-filter";
+import { hasAnalysisContent } from "@/lib/interview-analysis-schema";
+import { createLlmProvider } from "@/lib/llm-provider";
+import type { InterimTranscript } from "@/lib/partial-transcription";
+import {
+  describeParticipant,
+  getSpeakerLabel,
+  listRosterSpeakers,
+  OTHER_SPEAKER,
+  type SpeakerId,
+} from "@/lib/speakers";
+import {
+  getBudgetStatuses,
+  getEmptyUsageLedger,
+  getUsageLedger,
+  resetSessionUsage,
+  subscribeUsageLedger,
+} from "@/lib/usage-ledger";
+import { applyReplacements, buildWhisperPrompt, parseReplacementRules } from "@/lib/vocabulary";
 
 type AppMode = "meeting" | "interview";
 const INTERIM_UPDATE_MS = 120;
@@ -35,6 +74,10 @@ const RecordingControl = dynamic(() => import("@/components/RecordingControl"),
   loading: PanelSkeleton,
 });
 
+const AudioFileImport = dynamic(() => import("@/components/AudioFileImport"), {
+  ssr: false,
+});
+
 const TranscriptLog = dynamic(() => import("@/components/TranscriptLog"), {
   ssr: false,
   loading: PanelSkeleton,
@@ -49,6 +92,10 @@ const SettingsDialog = dynamic(() => import("@/components/SettingsDialog"), {
   ssr: false,
 });
 
+const ParticipantRosterDialog = dynamic(() => import("@/components/ParticipantRosterDialog"), {
+  ssr: false,
+});
+
 const ManualTab = dynamic(() => import("@/components/ManualTab"), {
   ssr: false,
   loading: PanelSkeleton,
@@ -58,11 +105,31 @@ export default function InterviewPage() {
   const {
     state,
     addLog,
+    updateLogText,
+    chooseLogAlternative,
+    addParticipant,
+    updateParticipant,
+    removeParticipant,
+    assignSpeaker,
     updateFreeMemo,
     clearLogs,
     setGroqApiKey,
     setGeminiApiKey,
     setGeminiModel,
+    setLlmProvider,
+    setTranscriptionProvider,
+    setMicDeviceId,
+    setMicTranscriptionEngine,
+    setMicLanguage,
+    setSystemLanguage,
+    setVocabulary,
+    setHallucinationPhrases,
+    setLogTimeDisplay,
+    setSystemDiarization,
+    setSystemInterim,
+    setSystemGainMode,
+    setSystemManualGain,
+    setBleedHandling,
     setResumeDocument,
     setWorkHistoryDocument,
     setInterviewAnalysis,
@@ -71,15 +138,55 @@ export default function InterviewPage() {
 
   const [appMode, setAppMode] = useState<AppMode>("interview");
   const [interimText, setInterimText] = useState("");
+  const [otherInterims, setOtherInterims] = useState<InterimTranscript[]>([]);
   const [isRecording, setIsRecording] = useState(false);
+  const [captureWarnings, setCaptureWarnings] = useState<AudioHealthWarning[]>([]);
+  const usageLedger = useSyncExternalStore(subscribeUsageLedger, getUsageLedger, getEmptyUsageLedger);
+  const budgetStatuses = getBudgetStatuses(usageLedger);
+  const budgetBlocked = budgetStatuses.some((status) => status.level === "blocked");
+  const [pendingTranscriptions, setPendingTranscriptions] = useState(0);
   const [saveVisible, setSaveVisible] = useState(false);
+  const [rosterOpen, setRosterOpen] = useState(false);
   const [isAnalyzingDocuments, setIsAnalyzingDocuments] = useState(false);
+  /** 作成中に届いた途中までの結果 */
+  const [streamingAnalysis, setStreamingAnalysis] = useState<InterviewAnalysis | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
   const [leftPaneWidth, setLeftPaneWidth] = useState(420);
   const saveStatusTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const interimTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pendingInterimText = useRef("");
   const isResizingLeftPane = useRef(false);
 
+  // 回り込みと判定したログは、設定に応じて表示・出力から除く
+  const logs = useMemo(
+    () => filterSuppressedLogs(state.logs, state.bleedHandling),
+    [state.logs, state.bleedHandling]
+  );
+  const suppressedLogCount = state.logs.length - logs.length;
+
+  const rosterSpeakers = useMemo(
+    () => listRosterSpeakers(state.logs.map((log) => log.speaker), state.roster),
+    [state.logs, state.roster]
+  );
+
+  const candidateInfo = state.interviewAnalysis?.basicInfo;
+  const whisperPrompt = useMemo(
+    () => buildWhisperPrompt(state.vocabulary, candidateInfo),
+    [state.vocabulary, candidateInfo]
+  );
+  const transcriptionProvider = useMemo(
+    () =>
+      createTranscriptionProvider(state.transcriptionProvider, state.groqApiKey, {
+        prompt: whisperPrompt,
+        hallucinationPhrases: parseHallucinationPhrases(state.hallucinationPhrases),
+      }),
+    [state.transcriptionProvider, state.groqApiKey, whisperPrompt, state.hallucinationPhrases]
+  );
+  const replacementRules = useMemo(
+    () => parseReplacementRules(state.vocabulary.replacements).rules,
+    [state.vocabulary.replacements]
+  );
+
   const showSaveStatus = useCallback(() => {
     setSaveVisible(true);
     if (saveStatusTimer.current) {
@@ -156,21 +263,47 @@ export default function InterviewPage() {
     }
   }, [flushInterimText]);
 
-  const handleSelfTranscript = useCallback((text: string) => {
-    addLog(text, "self");
-  }, [addLog]);
+  // 用語辞書の置換ルールは、どの経路の文字起こしにもログに入る前に適用する
+  const handleSelfTranscript = useCallback((text: string, timestamp: number, details?: LogDetails) => {
+    const corrected = applyReplacements(text, replacementRules);
+    if (!corrected) return;
+
+    // 選び直しの候補にも同じ置換をかける
+    const alternatives = details?.alternatives
+      ?.map((alternative) => applyReplacements(alternative, replacementRules))
+      .filter((alternative) => alternative && alternative !== corrected);
+    addLog(corrected, "self", timestamp, { ...details, alternatives });
+  }, [addLog, replacementRules]);
+
+  const handleOtherTranscript = useCallback(
+    (text: string, timestamp: number, details?: LogDetails, speaker: SpeakerId = OTHER_SPEAKER) => {
+      const corrected = applyReplacements(text, replacementRules);
+      if (corrected) {
+        addLog(corrected, speaker, timestamp, details);
+      }
+    },
+    [addLog, replacementRules]
+  );
 
-  const handleOtherTranscript = useCallback((text: string) => {
-    addLog(text, "other");
-  }, [addLog]);
+  // 暫定の発言にも同じ置換をかけ、確定した時に表記が変わらないようにする
+  const handleOtherInterimChange = useCallback(
+    (interims: InterimTranscript[]) => {
+      setOtherInterims(
+        interims
+          .map((interim) => ({ ...interim, text: applyReplacements(interim.text, replacementRules) }))
+          .filter((interim) => interim.text)
+      );
+    },
+    [replacementRules]
+  );
 
   const handleDownloadText = useCallback(() => {
-    downloadAsText(state.logs);
-  }, [state.logs]);
+    downloadAsText(logs, state.roster);
+  }, [logs, state.roster]);
 
   const handleDownloadWord = useCallback(() => {
-    downloadAsWord(state.logs, state.freeMemo, state.interviewAnalysis);
-  }, [state.logs, state.freeMemo, state.interviewAnalysis]);
+    downloadAsWord(logs, state.freeMemo, state.interviewAnalysis, state.roster);
+  }, [logs, state.freeMemo, state.interviewAnalysis, state.roster]);
 
   const handleMemoChange = useCallback(
     (event: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -190,7 +323,10 @@ export default function InterviewPage() {
   const handleReset = useCallback(() => {
     if (confirm("全データをリセットしますか？設定は保持されます。")) {
       resetAll();
-      window.location.reload();
+      resetSessionUsage();
+      void Promise.allSettled([clearAudioArchive(), clearTranscriptionBacklog()]).finally(() =>
+        window.location.reload()
+      );
     }
   }, [resetAll]);
 
@@ -207,8 +343,9 @@ export default function InterviewPage() {
   );
 
   const handleAnalyzeDocuments = useCallback(async () => {
-    if (!state.geminiApiKey) {
-      alert("Gemini APIキーを設定してください。右上の「設定」から入力できます。");
+    const provider = createLlmProvider(state.llmProvider, state.geminiApiKey, state.geminiModel);
+    if (!provider.isConfigured()) {
+      alert(`${provider.label}の設定を完了してください。右上の「設定」から入力できます。`);
       return;
     }
 
@@ -219,14 +356,17 @@ export default function InterviewPage() {
       return;
     }
 
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    let latestAnalysis = null as InterviewAnalysis | null;
+    setStreamingAnalysis(null);
     setIsAnalyzingDocuments(true);
     try {
-      const { analyzeInterviewDocuments } = await import("@/lib/gemini-service");
+      const { analyzeInterviewDocuments } = await import("@/lib/interview-analysis");
       const analysis = await analyzeInterviewDocuments({
+        provider,
         resumeText: state.resumeText,
         workHistoryText: state.workHistoryText,
-        apiKey: state.geminiApiKey,
-        model: state.geminiModel,
         inlineDocuments: [
           state.resumeData
             ? {
@@ -241,14 +381,30 @@ export default function InterviewPage() {
               }
             : null,
         ].filter((document): document is { mimeType: string; data: string } => Boolean(document)),
+        signal: controller.signal,
+        onPartial: (analysis) => {
+          latestAnalysis = analysis;
+          setStreamingAnalysis(analysis);
+        },
       });
       setInterviewAnalysis(analysis);
     } catch (error) {
-      alert(error instanceof Error ? error.message : "要約と質問候補の作成に失敗しました。");
+      // 途中で止まっても、それまでに届いた分は残す
+      const partial = latestAnalysis && hasAnalysisContent(latestAnalysis) ? latestAnalysis : null;
+      if (partial) {
+        setInterviewAnalysis({ ...partial, incomplete: true });
+      }
+      if (!controller.signal.aborted) {
+        const message = error instanceof Error ? error.message : "要約と質問候補の作成に失敗しました。";
+        alert(partial ? `${message}\n途中までの結果を表示しています。` : message);
+      }
     } finally {
+      analysisControllerRef.current = null;
+      setStreamingAnalysis(null);
       setIsAnalyzingDocuments(false);
     }
   }, [
+    state.llmProvider,
     state.geminiApiKey,
     state.geminiModel,
     state.resumeText,
@@ -260,12 +416,24 @@ export default function InterviewPage() {
     setInterviewAnalysis,
   ]);
 
+  const handleCancelAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort();
+  }, []);
+
   const handleCopyAll = useCallback(() => {
     const sections: string[] = [];
     sections.push("=== 議事録データ ===");
     sections.push(`日時: ${new Date().toLocaleString("ja-JP")}`);
     sections.push("");
 
+    if (state.roster.participants.length > 0) {
+      sections.push("--- 参加者 ---");
+      state.roster.participants.forEach((participant) => {
+        sections.push(`- ${describeParticipant(participant)}`);
+      });
+      sections.push("");
+    }
+
     if (state.freeMemo) {
       sections.push("--- メモ ---");
       sections.push(state.freeMemo);
@@ -308,10 +476,10 @@ export default function InterviewPage() {
       sections.push("");
     }
 
-    if (state.logs.length > 0) {
+    if (logs.length > 0) {
       sections.push("--- 会話ログ ---");
-      state.logs.forEach((log) => {
-        const speaker = log.speaker === "self" ? "自分" : "相手";
+      logs.forEach((log) => {
+        const speaker = getSpeakerLabel(log.speaker, state.roster);
         sections.push(`[${log.time}] ${speaker}: ${log.text}`);
       });
       sections.push("");
@@ -322,7 +490,7 @@ export default function InterviewPage() {
     }).catch(() => {
       alert("コピーに失敗しました。");
     });
-  }, [state.freeMemo, state.interviewAnalysis, state.logs]);
+  }, [state.freeMemo, state.interviewAnalysis, state.roster, logs]);
 
   const memoTitle = appMode === "interview" ? "面接メモ" : "MTGメモ";
 
@@ -382,6 +550,28 @@ export default function InterviewPage() {
               面接
             </button>
           </div>
+
+          {captureWarnings.length > 0 && (
+            <span
+              className="flex items-center gap-1 rounded-md bg-amber-100 px-2 py-1 text-[10px] font-bold text-amber-800"
+              title={captureWarnings.map((warning) => warning.message).join("\n")}
+            >
+              <AlertTriangle className="h-3.5 w-3.5" />
+              音声の警告 {captureWarnings.length}件
+            </span>
+          )}
+
+          {budgetStatuses.length > 0 && (
+            <span
+              className={`flex items-center gap-1 rounded-md px-2 py-1 text-[10px] font-bold ${
+                budgetBlocked ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"
+              }`}
+              title={budgetStatuses.map((status) => status.message).join("\n")}
+            >
+              <Gauge className="h-3.5 w-3.5" />
+              {budgetBlocked ? "使用量の上限に到達" : "使用量が上限に近づいています"}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-1.5 overflow-x-auto sm:overflow-visible pb-1 sm:pb-0">
@@ -390,9 +580,47 @@ export default function InterviewPage() {
               groqApiKey={state.groqApiKey}
               geminiApiKey={state.geminiApiKey}
               geminiModel={state.geminiModel}
+              llmProvider={state.llmProvider}
+              transcriptionProvider={state.transcriptionProvider}
+              micDeviceId={state.micDeviceId}
+              micTranscriptionEngine={state.micTranscriptionEngine}
+              micLanguage={state.micLanguage}
+              systemLanguage={state.systemLanguage}
+              vocabulary={state.vocabulary}
+              candidateInfo={candidateInfo}
+              hallucinationPhrases={state.hallucinationPhrases}
+              systemDiarization={state.systemDiarization}
+              systemInterim={state.systemInterim}
+              systemGainMode={state.systemGainMode}
+              systemManualGain={state.systemManualGain}
+              bleedHandling={state.bleedHandling}
               onGroqApiKeyChange={setGroqApiKey}
               onGeminiApiKeyChange={setGeminiApiKey}
               onGeminiModelChange={setGeminiModel}
+              onLlmProviderChange={setLlmProvider}
+              onTranscriptionProviderChange={setTranscriptionProvider}
+              onMicDeviceIdChange={setMicDeviceId}
+              onMicTranscriptionEngineChange={setMicTranscriptionEngine}
+              onMicLanguageChange={setMicLanguage}
+              onSystemLanguageChange={setSystemLanguage}
+              onVocabularyChange={setVocabulary}
+              onHallucinationPhrasesChange={setHallucinationPhrases}
+              onSystemDiarizationChange={setSystemDiarization}
+              onSystemInterimChange={setSystemInterim}
+              onSystemGainModeChange={setSystemGainMode}
+              onSystemManualGainChange={setSystemManualGain}
+              onBleedHandlingChange={setBleedHandling}
+            />
+
+            <ParticipantRosterDialog
+              open={rosterOpen}
+              onOpenChange={setRosterOpen}
+              roster={state.roster}
+              speakers={rosterSpeakers}
+              onAddParticipant={addParticipant}
+              onUpdateParticipant={updateParticipant}
+              onRemoveParticipant={removeParticipant}
+              onAssignSpeaker={assignSpeaker}
             />
 
             <Dialog>
@@ -481,10 +709,11 @@ export default function InterviewPage() {
               <InterviewDocuments
                 resumeFileName={state.resumeFileName}
                 workHistoryFileName={state.workHistoryFileName}
-                analysis={state.interviewAnalysis}
+                analysis={isAnalyzingDocuments ? streamingAnalysis : state.interviewAnalysis}
                 isAnalyzing={isAnalyzingDocuments}
                 onDocumentLoaded={handleDocumentLoaded}
                 onAnalyze={handleAnalyzeDocuments}
+                onCancelAnalysis={handleCancelAnalysis}
               />
             </aside>
             <div
@@ -501,9 +730,29 @@ export default function InterviewPage() {
               onSelfTranscript={handleSelfTranscript}
               onOtherTranscript={handleOtherTranscript}
               onInterimChange={handleInterimChange}
+              onOtherInterimChange={handleOtherInterimChange}
               onRecordingStateChange={setIsRecording}
-              groqApiKey={state.groqApiKey}
+              onHealthWarningsChange={setCaptureWarnings}
+              onPendingTranscriptionsChange={setPendingTranscriptions}
+              transcriptionProvider={transcriptionProvider}
+              micDeviceId={state.micDeviceId}
+              micTranscriptionEngine={state.micTranscriptionEngine}
+              micLanguage={state.micLanguage}
+              systemLanguage={state.systemLanguage}
+              systemDiarization={state.systemDiarization}
+              hasLogs={state.logs.length > 0}
+              systemInterim={state.systemInterim}
+              systemGainMode={state.systemGainMode}
+              systemManualGain={state.systemManualGain}
             />
+            <div className="mt-3">
+              <AudioFileImport
+                onTranscript={handleOtherTranscript}
+                transcriptionProvider={transcriptionProvider}
+                language={state.systemLanguage}
+                disabled={isRecording}
+              />
+            </div>
           </div>
 
           <div className="flex-1 flex flex-col overflow-y-auto bg-emerald-50/20 dark:bg-emerald-950/10">
@@ -542,8 +791,17 @@ export default function InterviewPage() {
 
         <aside className="w-full lg:w-96 h-56 lg:h-auto bg-card border-t lg:border-t-0 lg:border-l flex flex-col z-10 shrink-0 shadow-lg">
           <TranscriptLog
-            logs={state.logs}
+            logs={logs}
+            suppressedLogCount={suppressedLogCount}
             interimText={interimText}
+            otherInterims={otherInterims}
+            pendingTranscriptions={pendingTranscriptions}
+            timeDisplay={state.logTimeDisplay}
+            onTimeDisplayChange={setLogTimeDisplay}
+            onEditLog={updateLogText}
+            onChooseAlternative={chooseLogAlternative}
+            roster={state.roster}
+            onSpeakerClick={() => setRosterOpen(true)}
             onClear={clearLogs}
           />
         </aside>
@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FileAudio, Loader2, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { LogDetails } from "@/hooks/useInterviewStore";
+import { saveImportedArchiveSegment } from "@/lib/audio-archive";
+import {
+    AUDIO_IMPORT_ACCEPT,
+    decodeAudioFile,
+    isAudioImportSupported,
+    transcribeDecodedAudio,
+    type DecodedAudio,
+} from "@/lib/audio-import";
+import type { RecognitionLanguage } from "@/lib/recognition-language";
+import { addToTranscriptionBacklog } from "@/lib/transcription-backlog";
+import { getSpokenRange } from "@/lib/transcription-queue";
+import type { TranscriptionProvider } from "@/lib/transcription-provider";
+
+interface AudioFileImportProps {
+    /** 取り込んだ音声の発言（録音時刻付き）。相手側（CH2）と同じ扱いでログに入る */
+    onTranscript: (text: string, timestamp: number, details?: LogDetails) => void;
+    transcriptionProvider: TranscriptionProvider;
+    /** 相手側（CH2）と同じ認識言語を使う */
+    language: RecognitionLanguage;
+    /** ライブ録音中は取り込みを止める */
+    disabled?: boolean;
+}
+
+interface LoadedFile {
+    file: File;
+    audio: DecodedAudio;
+    /** datetime-local 形式の録音開始時刻 */
+    startedAtInput: string;
+}
+
+type ImportStatus =
+    | { kind: "idle" }
+    | { kind: "decoding"; fileName: string }
+    | { kind: "ready" }
+    | { kind: "transcribing"; done: number; total: number }
+    | { kind: "done"; count: number; failed: number };
+
+export default function AudioFileImport({
+    onTranscript,
+    transcriptionProvider,
+    language,
+    disabled = false,
+}: AudioFileImportProps) {
+    const [status, setStatus] = useState<ImportStatus>({ kind: "idle" });
+    const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+    const [error, setError] = useState("");
+    const inputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const handleFile = useCallback(async (file: File) => {
+        setError("");
+        setLoaded(null);
+        setStatus({ kind: "decoding", fileName: file.name });
+
+        try {
+            const audio = await decodeAudioFile(file);
+            // 多くの録音アプリは保存時刻を更新日時に残すため、そこから長さを引いた時刻を開始時刻の初期値にする
+            const startedAt = file.lastModified ? file.lastModified - audio.durationMs : Date.now();
+            setLoaded({ file, audio, startedAtInput: toDateTimeInputValue(startedAt) });
+            setStatus({ kind: "ready" });
+        } catch (decodeError) {
+            setError(decodeError instanceof Error ? decodeError.message : "録音ファイルの読み込みに失敗しました。");
+            setStatus({ kind: "idle" });
+        }
+    }, []);
+
+    const startTranscription = useCallback(async () => {
+        if (!loaded) return;
+
+        const startedAt = new Date(loaded.startedAtInput).getTime();
+        if (Number.isNaN(startedAt)) {
+            setError("録音開始時刻を入力してください。");
+            return;
+        }
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError("");
+
+        // 会話ログから聞き直せるよう、元のファイルも録音アーカイブに入れておく
+        saveImportedArchiveSegment(
+            "system",
+            loaded.file,
+            startedAt,
+            startedAt + loaded.audio.durationMs
+        ).catch((archiveError) => {
+            console.error("録音ファイルのアーカイブ保存に失敗しました:", archiveError);
+        });
+
+        let count = 0;
+        let failed = 0;
+        await transcribeDecodedAudio(loaded.audio, {
+            startedAt,
+            transcribe: (chunk) => transcriptionProvider.transcribe(chunk.blob, language),
+            onResult: (chunk, result) => {
+                count += 1;
+                const { startedAt: spokenAt, endedAt } = getSpokenRange(chunk, result);
+                onTranscript(result.text, spokenAt, { language: result.language, endedAt });
+            },
+            onError: (chunk, transcribeError) => {
+                failed += 1;
+                void addToTranscriptionBacklog(chunk, transcribeError);
+            },
+            onProgress: (done, total) => setStatus({ kind: "transcribing", done, total }),
+            signal: controller.signal,
+        });
+
+        if (abortRef.current === controller) {
+            abortRef.current = null;
+        }
+        setLoaded(null);
+        setStatus(controller.signal.aborted ? { kind: "idle" } : { kind: "done", count, failed });
+    }, [language, loaded, onTranscript, transcriptionProvider]);
+
+    const cancel = useCallback(() => {
+        abortRef.current?.abort();
+        setLoaded(null);
+        setStatus({ kind: "idle" });
+    }, []);
+
+    if (!isAudioImportSupported()) return null;
+
+    const isBusy = status.kind === "decoding" || status.kind === "transcribing";
+
+    return (
+        <div className="space-y-2">
+            <input
+                ref={inputRef}
+                type="file"
+                accept={AUDIO_IMPORT_ACCEPT}
+                className="hidden"
+                onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) void handleFile(file);
+                    event.currentTarget.value = "";
+                }}
+            />
+
+            {!loaded && !isBusy && (
+                <Button
+                    onClick={() => inputRef.current?.click()}
+                    variant="outline"
+                    size="sm"
+                    className="w-full text-xs"
+                    disabled={disabled || !transcriptionProvider.isConfigured()}
+                    title={
+                        transcriptionProvider.isConfigured()
+                            ? "録音済みの音声・動画ファイルを文字起こし"
+                            : "文字起こしの設定をすると使えます"
+                    }
+                >
+                    <Upload className="mr-2 h-3.5 w-3.5" /> 録音ファイルを取り込む
+                </Button>
+            )}
+
+            {status.kind === "decoding" && (
+                <p className="flex items-center gap-1.5 rounded-md bg-muted/60 p-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {status.fileName} を読み込み中...
+                </p>
+            )}
+
+            {loaded && status.kind === "ready" && (
+                <div className="space-y-2 rounded-md border bg-card p-2 text-xs">
+                    <p className="flex items-center gap-1.5 font-medium">
+                        <FileAudio className="h-3.5 w-3.5 text-emerald-600" />
+                        <span className="truncate">{loaded.file.name}</span>
+                        <span className="shrink-0 text-muted-foreground">({formatDuration(loaded.audio.durationMs)})</span>
+                    </p>
+                    <label className="flex items-center gap-2">
+                        <span className="shrink-0 text-muted-foreground">録音開始時刻</span>
+                        <Input
+                            type="datetime-local"
+                            step={1}
+                            value={loaded.startedAtInput}
+                            onChange={(event) => {
+                                const value = event.target.value;
+                                setLoaded((prev) => (prev ? { ...prev, startedAtInput: value } : prev));
+                            }}
+                            className="h-7 text-xs"
+                        />
+                    </label>
+                    <div className="flex gap-2">
+                        <Button onClick={() => void startTranscription()} size="sm" className="flex-1 text-xs">
+                            文字起こし開始
+                        </Button>
+                        <Button onClick={cancel} variant="ghost" size="sm" className="text-xs">
+                            キャンセル
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {status.kind === "transcribing" && (
+                <div className="flex items-center gap-2 rounded-md bg-muted/60 p-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+                    <span className="flex-1">
+                        録音ファイルを文字起こし中... {status.done}/{status.total}
+                    </span>
+                    <button onClick={cancel} className="hover:text-foreground" aria-label="取り込みを中止">
+                        <X className="h-3 w-3" />
+                    </button>
+                </div>
+            )}
+
+            {status.kind === "done" && (
+                <p className="flex items-start gap-1.5 rounded-md bg-emerald-50 p-2 text-xs text-emerald-800 dark:bg-emerald-950 dark:text-emerald-200">
+                    <span className="flex-1">
+                        録音ファイルから {status.count} 件の発言を追加しました。
+                        {status.failed > 0 && ` ${status.failed} 件は保留中として後で再試行します。`}
+                    </span>
+                    <button
+                        onClick={() => setStatus({ kind: "idle" })}
+                        className="text-emerald-700 hover:text-emerald-900"
+                        aria-label="通知を閉じる"
+                    >
+                        <X className="h-3 w-3" />
+                    </button>
+                </p>
+            )}
+
+            {error && (
+                <p className="rounded-md bg-amber-50 p-2 text-xs text-amber-700 dark:bg-amber-950 dark:text-amber-300">
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
+
+function toDateTimeInputValue(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatDuration(durationMs: number): string {
+    const totalSeconds = Math.round(durationMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { ChevronDown, ChevronRight, Filter, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  clearFilteredSegments,
+  DEFAULT_HALLUCINATION_PHRASES,
+  FILTER_REASON_LABELS,
+  getFilteredSegments,
+  subscribeFilteredSegments,
+} from "@/lib/hallucination-filter";
+
+interface HallucinationFilterEditorProps {
+  phrases: string;
+  onChange: (phrases: string) => void;
+}
+
+export default function HallucinationFilterEditor({ phrases, onChange }: HallucinationFilterEditorProps) {
+  const [showFiltered, setShowFiltered] = useState(false);
+  const filteredSegments = useSyncExternalStore(
+    subscribeFilteredSegments,
+    getFilteredSegments,
+    getFilteredSegments
+  );
+
+  return (
+    <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="hallucination-phrases" className="text-sm font-bold flex items-center gap-1.5">
+          <Filter className="h-3.5 w-3.5" />
+          Whisperの誤認識対策
+        </Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs gap-1"
+          onClick={() => onChange(DEFAULT_HALLUCINATION_PHRASES)}
+          disabled={phrases === DEFAULT_HALLUCINATION_PHRASES}
+        >
+          <RotateCcw className="h-3 w-3" />
+          初期値に戻す
+        </Button>
+      </div>
+      <Textarea
+        id="hallucination-phrases"
+        value={phrases}
+        onChange={(event) => onChange(event.target.value)}
+        className="min-h-20 text-xs font-mono"
+      />
+      <p className="text-[10px] text-muted-foreground">
+        無音の区間でWhisperが出しがちな定型句です（1行に1件）。発言の区間がほぼこの句だけの場合に除きます。無音らしさ・確信度の低さ・同じ語の繰り返しでも区間ごとに除きます。
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => setShowFiltered(!showFiltered)}
+            className="flex items-center gap-1 text-xs font-medium hover:text-emerald-600"
+          >
+            {showFiltered ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            除いた区間（{filteredSegments.length}件）
+          </button>
+          {filteredSegments.length > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 text-[10px] gap-1"
+              onClick={clearFilteredSegments}
+            >
+              <Trash2 className="h-3 w-3" />
+              クリア
+            </Button>
+          )}
+        </div>
+        {showFiltered && (
+          <div className="max-h-48 overflow-y-auto rounded-md border bg-background">
+            {filteredSegments.length === 0 ? (
+              <p className="p-3 text-[10px] text-muted-foreground">
+                まだありません。このページを開いている間に除いた区間が表示されます。
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {filteredSegments.map((segment) => (
+                  <li key={segment.id} className="space-y-0.5 p-2">
+                    <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                      <span>
+                        {new Date(segment.filteredAt).toLocaleTimeString("ja-JP", {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                          second: "2-digit",
+                        })}
+                      </span>
+                      <span className="rounded-sm bg-amber-100 px-1 text-amber-700">
+                        {FILTER_REASON_LABELS[segment.reason]}
+                      </span>
+                      <span className="truncate font-mono">{segment.detail}</span>
+                    </div>
+                    <p className="text-xs break-all">{segment.text}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useRef, useState } from "react";
-import { CheckCircle2, FileText, Loader2, Sparkles, Upload } from "lucide-react";
+import { AlertTriangle, CheckCircle2, FileText, Loader2, Sparkles, Square, Upload } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -18,10 +18,12 @@ type DocumentKind = "resume" | "workHistory";
 interface InterviewDocumentsProps {
   resumeFileName: string;
   workHistoryFileName: string;
+  /** 作成中は、その時点までに届いた結果 */
   analysis: InterviewAnalysis | null;
   isAnalyzing: boolean;
   onDocumentLoaded: (kind: DocumentKind, document: DocumentPayload) => void;
   onAnalyze: () => void;
+  onCancelAnalysis: () => void;
 }
 
 interface DocumentUploaderProps {
@@ -162,6 +164,7 @@ export default function InterviewDocuments({
   isAnalyzing,
   onDocumentLoaded,
   onAnalyze,
+  onCancelAnalysis,
 }: InterviewDocumentsProps) {
   return (
     <div className="h-full overflow-y-auto p-4 space-y-4 bg-background">
@@ -188,18 +191,38 @@ export default function InterviewDocuments({
         onLoaded={onDocumentLoaded}
       />
 
-      <Button
-        onClick={onAnalyze}
-        disabled={isAnalyzing}
-        className="w-full gap-2 bg-emerald-600 hover:bg-emerald-700 text-white"
-      >
-        {isAnalyzing ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <Sparkles className="h-4 w-4" />
+      <div className="flex gap-2">
+        <Button
+          onClick={onAnalyze}
+          disabled={isAnalyzing}
+          className="flex-1 gap-2 bg-emerald-600 hover:bg-emerald-700 text-white"
+        >
+          {isAnalyzing ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Sparkles className="h-4 w-4" />
+          )}
+          {isAnalyzing ? "作成中..." : "基本情報・要約・質問を作成"}
+        </Button>
+        {isAnalyzing && (
+          <Button
+            variant="outline"
+            onClick={onCancelAnalysis}
+            className="gap-1.5"
+            title="作成を中止（届いた分は残します）"
+          >
+            <Square className="h-3.5 w-3.5" />
+            中止
+          </Button>
         )}
-        {isAnalyzing ? "作成中..." : "基本情報・要約・質問を作成"}
-      </Button>
+      </div>
+
+      {analysis?.incomplete && !isAnalyzing && (
+        <p className="flex items-start gap-1.5 rounded-md border border-amber-200 bg-amber-50 p-2 text-[10px] text-amber-800">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          作成が途中で止まったため、一部の項目だけを表示しています。もう一度作成すると置き換わります。
+        </p>
+      )}
 
       {analysis && (
         <div className="space-y-3">
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, HardDrive, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  clearLocalWhisperModel,
+  getLocalWhisperModel,
+  isLocalWhisperModelCached,
+  isLocalWhisperSupported,
+  loadLocalWhisperModel,
+  LOCAL_WHISPER_MODELS,
+  type LocalWhisperModelId,
+} from "@/lib/local-whisper";
+
+interface LocalWhisperModelManagerProps {
+  model: LocalWhisperModelId;
+  selectClassName: string;
+  onModelChange: (model: LocalWhisperModelId) => void;
+}
+
+interface CacheState {
+  model: LocalWhisperModelId;
+  cached: boolean;
+}
+
+export default function LocalWhisperModelManager({
+  model,
+  selectClassName,
+  onModelChange,
+}: LocalWhisperModelManagerProps) {
+  const [cacheState, setCacheState] = useState<CacheState | null>(null);
+  /** ダウンロード中の進み具合（0〜100）。ダウンロードしていなければ null */
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const supported = isLocalWhisperSupported();
+  const option = getLocalWhisperModel(model);
+  // 別のモデルを選んだ直後は、確認が終わるまで「確認中」と表示する
+  const cached = cacheState?.model === model ? cacheState.cached : null;
+
+  useEffect(() => {
+    if (!supported) return;
+
+    let cancelled = false;
+    isLocalWhisperModelCached(model)
+      .then((result) => {
+        if (!cancelled) setCacheState({ model, cached: result });
+      })
+      .catch((cacheError) => console.warn("モデルのキャッシュを確認できませんでした:", cacheError));
+    return () => {
+      cancelled = true;
+    };
+  }, [model, supported]);
+
+  const download = async () => {
+    setError("");
+    setProgress(0);
+    try {
+      await loadLocalWhisperModel(model, setProgress);
+      setCacheState({ model, cached: true });
+    } catch (downloadError) {
+      setError(
+        `ダウンロードできませんでした: ${downloadError instanceof Error ? downloadError.message : String(downloadError)}`
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm(`${option.label}のモデルをこのブラウザから削除しますか？`)) return;
+
+    setError("");
+    try {
+      await clearLocalWhisperModel(model);
+      setCacheState({ model, cached: false });
+    } catch (removeError) {
+      setError(`削除できませんでした: ${removeError instanceof Error ? removeError.message : String(removeError)}`);
+    }
+  };
+
+  if (!supported) {
+    return (
+      <p className="text-[10px] text-red-500">
+        このブラウザはブラウザ内Whisperに対応していません。最新のChromeまたはEdgeを使ってください。
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <Label htmlFor="local-whisper-model" className="text-xs">
+          モデル
+        </Label>
+        <select
+          id="local-whisper-model"
+          value={model}
+          onChange={(event) => onModelChange(event.target.value as LocalWhisperModelId)}
+          disabled={progress !== null}
+          className={selectClassName}
+        >
+          {LOCAL_WHISPER_MODELS.map((modelOption) => (
+            <option key={modelOption.value} value={modelOption.value}>
+              {modelOption.label}・{modelOption.sizeLabel}
+            </option>
+          ))}
+        </select>
+        <p className="text-[10px] text-muted-foreground">{option.description}</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          <HardDrive className="h-3 w-3" />
+          {cached === null ? "保存状況を確認中…" : cached ? "このブラウザに保存済み" : "未ダウンロード"}
+        </p>
+        {cached ? (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs gap-1 text-muted-foreground hover:text-red-500"
+            onClick={() => void remove()}
+          >
+            <Trash2 className="h-3 w-3" />
+            削除
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs gap-1"
+            onClick={() => void download()}
+            disabled={progress !== null}
+          >
+            <Download className="h-3 w-3" />
+            {progress === null ? `ダウンロード（${option.sizeLabel}）` : `${Math.round(progress)}%`}
+          </Button>
+        )}
+      </div>
+
+      {progress !== null && (
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full rounded-full bg-primary transition-[width] duration-200"
+            style={{ width: `${Math.round(progress)}%` }}
+          />
+        </div>
+      )}
+      {error && <p className="text-[10px] text-red-500">{error}</p>}
+    </div>
+  );
+}
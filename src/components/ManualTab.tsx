@@ -27,8 +27,8 @@ const sections: ManualSection[] = [
     title: "1. 初期設定",
     steps: [
       "右上の「設定」を開きます。",
-      "相手側の音声も文字起こしする場合は、Groq APIキーを入力します。",
-      "面接モードで履歴書と職務経歴書を要約する場合は、Gemini APIキーを入力します。",
+      "相手側の音声も文字起こしする場合は、文字起こしサービスを選び、Groq APIキーまたは社内サーバーのURLを入力します。",
+      "面接モードで履歴書と職務経歴書を要約する場合は、AIサービスを選び、Gemini APIキーまたは利用するAPIの設定を入力します。",
     ],
   },
   {
@@ -54,8 +54,10 @@ const sections: ManualSection[] = [
     steps: [
       "「マイク録音開始」で自分の声を文字起こしします。",
       "「相手の声も取得」を使うと、ブラウザタブや会議アプリの音声も文字起こしできます。",
-      "イヤフォン利用時は相手の声がマイクに入りにくいため、相手音声は画面共有の音声から取得してください。",
+      "相手音声は画面共有の音声から取得してください。スピーカー利用時にマイクへ回り込んだ相手の発言は、重複として自動で判定されます。",
       "認識された会話は右側のログに時刻付きで追加されます。",
+      "録音中の音声は自分・相手ともこのブラウザ内に保存され、ログの▶ボタンからその発言の位置を聞き直せます。",
+      "「録音ファイルを取り込む」から、Zoomの録画やボイスメモ（mp3 / m4a / wav / webm / mp4）を後から文字起こしできます。録音開始時刻を合わせると、発言がその時刻でログに入ります。",
     ],
   },
   {
@@ -65,6 +67,7 @@ const sections: ManualSection[] = [
       "「コピー」でメモ、基本情報、要約、質問候補、会話ログをコピーできます。",
       "「TXT」で会話ログをテキストファイルとして保存できます。",
       "「Word出力」でメモ、基本情報、要約、質問候補、会話ログをWord形式で保存できます。",
+      "会話ログ右上のダウンロードボタンで、録音データを録音区間ごとのWebMファイルとして保存できます。",
     ],
   },
 ];
@@ -72,15 +75,63 @@ const sections: ManualSection[] = [
 const faqs = [
   {
     q: "相手の声が取れない",
-    a: "イヤフォン利用時は相手の声がマイクに回り込みません。「相手の声も取得」を押したあと、画面共有の選択画面で「音声を共有」を有効にしてください。",
+    a: "「相手の声も取得」を押したあと、画面共有の選択画面で「音声を共有」を有効にしてください。録音中に警告が表示された場合は、その案内に従って共有をやり直してください。",
+  },
+  {
+    q: "通信が切れたら相手の発言は失われますか？",
+    a: "文字起こしに失敗した音声はブラウザに保存され、時間を置いて自動で再試行されます。保留中の件数は録音ボタンの下に表示され、「今すぐ再試行」で手動でも再送できます。復旧した発言は録音した時刻の位置にログへ入ります。",
+  },
+  {
+    q: "FirefoxやSafariで自分の声が文字起こしされない",
+    a: "ブラウザの音声認識（Web Speech API）に対応していないブラウザでは、自分の声も録音して文字起こしサービス（Whisper）に送ります。設定でGroq APIキーなどを入力してください。Chromeでも設定の「文字起こし方法」でWhisperを選べます。",
+  },
+  {
+    q: "候補者名や社内の製品名が正しく文字起こしされない",
+    a: "設定の「用語辞書」に用語を登録すると、Whisperに認識されやすい語として伝えます。候補者の氏名・学校・会社は書類の読み込み後に自動で加わります。それでも誤る語は「誤 => 正」の置換ルールで直せます。辞書はテキストファイルで読み込み・書き出しできます。",
+  },
+  {
+    q: "話していない「ご視聴ありがとうございました」などが記録される",
+    a: "無音に近い音声でWhisperが出しがちな誤認識です。区間ごとに無音らしさ・確信度・繰り返しで判定して除いています。設定の「Whisperの誤認識対策」で除く定型句を編集でき、除いた区間の一覧も確認できます。",
+  },
+  {
+    q: "ダウンロードした議事録に参加者の名前を載せたい",
+    a: "ヘッダーの「参加者」で名前・役割・所属を登録し、「自分」「相手」などの話者に割り当ててください。会話ログ・コピー・ダウンロードのすべてで割り当てた名前を使い、議事録の冒頭に参加者の一覧を載せます。面接では書類を解析すると候補者が自動で登録されます。",
+  },
+  {
+    q: "相手の発言がログに出るまで時間がかかる",
+    a: "相手の音声は発言の区切りごとに文字起こしするため、表示まで数秒かかります。設定の「相手の音声（CH2）」で「相手の発言を話している途中から表示する」をオンにすると、話している途中から暫定の吹き出しを表示し、発言が終わると確定したログに置き換えます。",
+  },
+  {
+    q: "集団面接や会議で、相手が複数人いる",
+    a: "設定の「相手の音声（CH2）」で「相手の話者を分ける」をオンにすると、発言ごとに声の特徴から話者を推定し、相手A・相手Bのように分けて記録します。ログの話者名をクリックすると参加者名簿が開き、話者ごとに参加者を割り当てられます。声が似ている場合や短い相づちは同じ話者にまとまることがあります。",
+  },
+  {
+    q: "英語など日本語以外の面接で使いたい",
+    a: "設定の「認識言語」をマイク（CH1）と相手の音声（CH2）それぞれで選べます。Whisperで文字起こしするチャンネルは「自動判定」も選べ、判定した言語が会話ログの時刻の横に表示されます。",
+  },
+  {
+    q: "音声を外部のサービスに送りたくない",
+    a: "設定の「文字起こしサービス」で「OpenAI互換サーバー」を選び、社内で動かしているfaster-whisperやwhisper.cppなどのURLとモデル名を入力してください。サーバー側でこのページからのアクセス（CORS）を許可しておく必要があります。",
+  },
+  {
+    q: "APIキーなし・オフラインで文字起こししたい",
+    a: "設定の「文字起こしサービス」で「ブラウザ内Whisper」を選び、モデルをダウンロードしてください。一度ダウンロードしたモデルはブラウザに保存され、ネットに繋がっていなくても使えます。PCの性能によっては表示が遅れるため、遅れる場合は「速度優先」のモデルを選び、途中経過の表示をオフにしてください。不要になったモデルは同じ画面から削除できます。",
+  },
+  {
+    q: "GroqやGeminiの使用量を把握したい・使いすぎを防ぎたい",
+    a: "設定の「使用量と上限」に、この面接と今月のGroqの音声の長さとGeminiのトークン数が表示されます。上限を入力すると、8割に達した時点で画面上部に警告が出て、上限に達するとそのサービスへの送信を止めます。止めている間の相手側音声は文字起こし待ちに残るため、上限を変えてから再試行できます。",
   },
   {
     q: "履歴書や職務経歴書はどこに送られますか？",
-    a: "要約を作成するときだけ、入力したGemini APIキーを使ってGoogle Gemini APIに送信されます。このアプリのサーバーには保存されません。",
+    a: "要約を作成するときだけ、設定の「AIサービス」で選んだサービス（既定はGoogle Gemini API）に送信されます。このアプリのサーバーには保存されません。",
+  },
+  {
+    q: "Google以外のAIで要約したい（OpenAI・Azure OpenAI・Ollama）",
+    a: "設定の「AIサービス」で「OpenAI互換API」を選び、APIのURL・モデル名・APIキーを入力してください。Azure OpenAIでは、URLにデプロイのURL（https://リソース名.openai.azure.com/openai/deployments/デプロイ名）を入れて「api-version」を指定するか、https://リソース名.openai.azure.com/openai/v1 を入れて「api-version」を空欄にし、モデル名にデプロイ名を入力してください。書類を外部に送りたくない場合は「Ollama（ローカル）」を選び、PCで動かしているOllamaのURLとモデル名を入力してください。OllamaはPDFを読めないため書類はテキストで読み込み、環境変数 OLLAMA_ORIGINS でこのページからのアクセスを許可してください。",
   },
   {
     q: "データはどこに保存されますか？",
-    a: "メモ、会話ログ、APIキー、要約結果はブラウザのlocalStorageに保存されます。アップロードしたPDF本体は永続保存しません。",
+    a: "メモ、会話ログ、APIキー、要約結果はブラウザのlocalStorageに保存されます。録音データと文字起こし待ちの音声はブラウザのIndexedDBに保存され、ログのクリアやリセットで削除されます。アップロードしたPDF本体は永続保存しません。",
   },
 ];
 
@@ -0,0 +1,182 @@
+"use client";
+
+import { Contact, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  getDefaultSpeakerLabel,
+  isSelfSpeaker,
+  OTHER_SPEAKER,
+  type Participant,
+  type ParticipantRoster,
+  type SpeakerId,
+} from "@/lib/speakers";
+
+interface ParticipantRosterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roster: ParticipantRoster;
+  /** 割り当てる話者（ログに出てきた順） */
+  speakers: SpeakerId[];
+  onAddParticipant: (participant?: Partial<Omit<Participant, "id">>, speaker?: SpeakerId) => void;
+  onUpdateParticipant: (id: string, changes: Partial<Omit<Participant, "id">>) => void;
+  onRemoveParticipant: (id: string) => void;
+  onAssignSpeaker: (speaker: SpeakerId, participantId: string | null) => void;
+}
+
+const SELECT_CLASS_NAME =
+  "h-8 w-full rounded-md border border-input bg-background px-2 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+/** 割り当ての選択肢で「新しい参加者として追加」を表す値 */
+const NEW_PARTICIPANT_VALUE = "__new__";
+
+function describeSpeakerSource(speaker: SpeakerId): string {
+  if (isSelfSpeaker(speaker)) return "マイク（CH1）";
+  if (speaker === OTHER_SPEAKER) return "相手の音声（CH2）・録音ファイル";
+  return "相手の音声（CH2）の話者分離";
+}
+
+export default function ParticipantRosterDialog({
+  open,
+  onOpenChange,
+  roster,
+  speakers,
+  onAddParticipant,
+  onUpdateParticipant,
+  onRemoveParticipant,
+  onAssignSpeaker,
+}: ParticipantRosterDialogProps) {
+  const handleAssign = (speaker: SpeakerId, value: string) => {
+    if (value === NEW_PARTICIPANT_VALUE) {
+      onAddParticipant({ name: getDefaultSpeakerLabel(speaker) }, speaker);
+    } else {
+      onAssignSpeaker(speaker, value || null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs gap-1">
+          <Contact className="h-3.5 w-3.5" />
+          参加者
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Contact className="h-4 w-4" />
+            参加者名簿
+          </DialogTitle>
+          <DialogDescription>
+            この会議の参加者を登録し、話者に割り当てると、会話ログ・コピー・ダウンロードに名前が表示されます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <div className="flex items-center justify-between gap-3">
+              <Label className="text-sm font-bold">参加者</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs gap-1"
+                onClick={() => onAddParticipant()}
+              >
+                <Plus className="h-3 w-3" />
+                追加
+              </Button>
+            </div>
+            {roster.participants.length === 0 ? (
+              <p className="text-[10px] text-muted-foreground">
+                まだ登録されていません。面接では、書類を解析すると候補者が自動で登録されます。
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {roster.participants.map((participant) => (
+                  <li key={participant.id} className="flex items-center gap-1.5">
+                    <Input
+                      value={participant.name}
+                      onChange={(event) => onUpdateParticipant(participant.id, { name: event.target.value })}
+                      placeholder="名前"
+                      className="h-8 text-xs"
+                      aria-label="名前"
+                    />
+                    <Input
+                      value={participant.role}
+                      onChange={(event) => onUpdateParticipant(participant.id, { role: event.target.value })}
+                      placeholder="役割"
+                      className="h-8 w-24 text-xs"
+                      aria-label="役割"
+                    />
+                    <Input
+                      value={participant.affiliation}
+                      onChange={(event) =>
+                        onUpdateParticipant(participant.id, { affiliation: event.target.value })
+                      }
+                      placeholder="所属"
+                      className="h-8 text-xs"
+                      aria-label="所属"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 shrink-0 p-0 text-muted-foreground hover:text-red-500"
+                      onClick={() => onRemoveParticipant(participant.id)}
+                      title="名簿から外す"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <Label className="text-sm font-bold">話者の割り当て</Label>
+            <ul className="space-y-2">
+              {speakers.map((speaker) => (
+                <li key={speaker} className="grid grid-cols-[1fr_1.4fr] items-center gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium">{getDefaultSpeakerLabel(speaker)}</p>
+                    <p className="truncate text-[10px] text-muted-foreground">{describeSpeakerSource(speaker)}</p>
+                  </div>
+                  <select
+                    value={roster.assignments[speaker] ?? ""}
+                    onChange={(event) => handleAssign(speaker, event.target.value)}
+                    className={SELECT_CLASS_NAME}
+                    aria-label={`${getDefaultSpeakerLabel(speaker)}の参加者`}
+                  >
+                    <option value="">（割り当てない）</option>
+                    {roster.participants.map((participant) => (
+                      <option key={participant.id} value={participant.id}>
+                        {participant.name.trim() || "（名前未入力）"}
+                        {participant.role.trim() ? `・${participant.role.trim()}` : ""}
+                      </option>
+                    ))}
+                    <option value={NEW_PARTICIPANT_VALUE}>＋ 新しい参加者として追加</option>
+                  </select>
+                </li>
+              ))}
+            </ul>
+            <p className="text-[10px] text-muted-foreground">
+              割り当てない話者は「自分」「相手」「相手A」のように表示します。会話ログの話者名をクリックしてもこの画面を開けます。
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,71 +3,381 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import type { LogDetails } from "@/hooks/useInterviewStore";
 import { AudioCaptureEngine, type AudioCaptureState, type SystemAudioChunk } from "@/lib/audio-capture";
-import { transcribeWithGroq } from "@/lib/groq-service";
-import { SpeechRecognitionEngine } from "@/lib/speech-recognition";
-import { Mic, MicOff, Monitor, MonitorOff, Square } from "lucide-react";
+import type { AudioHealthWarning, CaptureChannel } from "@/lib/capture-health";
+import type { SystemGainMode } from "@/lib/gain-control";
+import { PartialTranscriber, type InterimTranscript } from "@/lib/partial-transcription";
+import { toSpeechLocale, type RecognitionLanguage } from "@/lib/recognition-language";
+import { SpeakerDiarizer } from "@/lib/speaker-diarization";
+import type { SpeakerId } from "@/lib/speakers";
+import {
+    SpeechRecognitionEngine,
+    type MicTranscriptionEngine,
+    type SpeechRecognitionStatus,
+} from "@/lib/speech-recognition";
+import { addToTranscriptionBacklog, TranscriptionBacklog } from "@/lib/transcription-backlog";
+import type { TranscriptionProvider } from "@/lib/transcription-provider";
+import { getSpokenRange, TranscriptionQueue } from "@/lib/transcription-queue";
+import { getBudgetStatuses } from "@/lib/usage-ledger";
+import { TranscriptionError, type TranscriptionResult } from "@/lib/whisper-api";
+import { AlertTriangle, Info, Mic, MicOff, Monitor, MonitorOff, RotateCw, Square, X } from "lucide-react";
 
 interface RecordingControlProps {
-    onSelfTranscript: (text: string) => void;
-    onOtherTranscript: (text: string) => void;
+    onSelfTranscript: (text: string, timestamp: number, details?: LogDetails) => void;
+    onOtherTranscript: (text: string, timestamp: number, details?: LogDetails, speaker?: SpeakerId) => void;
     onInterimChange: (text: string) => void;
+    /** 相手音声の暫定の発言（途中経過を有効にした場合） */
+    onOtherInterimChange?: (interims: InterimTranscript[]) => void;
     onRecordingStateChange?: (isRecording: boolean) => void;
-    groqApiKey: string;
+    onHealthWarningsChange?: (warnings: AudioHealthWarning[]) => void;
+    onPendingTranscriptionsChange?: (pending: number) => void;
+    transcriptionProvider: TranscriptionProvider;
+    micDeviceId: string;
+    micTranscriptionEngine: MicTranscriptionEngine;
+    micLanguage: RecognitionLanguage;
+    systemLanguage: RecognitionLanguage;
+    /** 相手音声を話者ごとに分けるか */
+    systemDiarization: boolean;
+    /** 会話ログがあるか（クリアされたら話者の判定もやり直す） */
+    hasLogs: boolean;
+    /** 相手音声の途中経過を表示するか */
+    systemInterim: boolean;
+    systemGainMode: SystemGainMode;
+    systemManualGain: number;
 }
 
+const MIC_START_FAILED_MESSAGE =
+    "マイクを開始できませんでした。ブラウザのマイクの許可と、マイクが接続されているかを確認してください。";
+
 export default function RecordingControl({
     onSelfTranscript,
     onOtherTranscript,
     onInterimChange,
+    onOtherInterimChange,
     onRecordingStateChange,
-    groqApiKey,
+    onHealthWarningsChange,
+    onPendingTranscriptionsChange,
+    transcriptionProvider,
+    micDeviceId,
+    micTranscriptionEngine,
+    micLanguage,
+    systemLanguage,
+    systemDiarization,
+    hasLogs,
+    systemInterim,
+    systemGainMode,
+    systemManualGain,
 }: RecordingControlProps) {
     const [micActive, setMicActive] = useState(false);
     const [systemAudioActive, setSystemAudioActive] = useState(false);
+    const [levels, setLevels] = useState({ mic: 0, system: 0, systemGain: 1, systemClipping: false });
+    const [warnings, setWarnings] = useState<AudioHealthWarning[]>([]);
+    const [micNotice, setMicNotice] = useState<{ message: string; time: string } | null>(null);
+    const [backlogCount, setBacklogCount] = useState(0);
+    const [isRetrying, setIsRetrying] = useState(false);
+    const [speechStatus, setSpeechStatus] = useState<SpeechRecognitionStatus>({ state: "idle" });
 
     const speechEngineRef = useRef<SpeechRecognitionEngine | null>(null);
     const audioCaptureRef = useRef<AudioCaptureEngine | null>(null);
-    const groqApiKeyRef = useRef(groqApiKey);
+    const transcriptionQueueRef = useRef<TranscriptionQueue | null>(null);
+    const micTranscriptionQueueRef = useRef<TranscriptionQueue | null>(null);
+    const transcriptionBacklogRef = useRef<TranscriptionBacklog | null>(null);
+    const onPendingTranscriptionsChangeRef = useRef(onPendingTranscriptionsChange);
+    const micDeviceIdRef = useRef(micDeviceId);
+    const transcriptionProviderRef = useRef(transcriptionProvider);
+    const onSelfTranscriptRef = useRef(onSelfTranscript);
+    const onInterimChangeRef = useRef(onInterimChange);
     const onOtherTranscriptRef = useRef(onOtherTranscript);
+    const languageRef = useRef({ mic: micLanguage, system: systemLanguage });
+    const systemDiarizationRef = useRef(systemDiarization);
+    const speakerDiarizerRef = useRef<SpeakerDiarizer | null>(null);
+    const systemInterimRef = useRef(systemInterim);
+    const partialTranscriberRef = useRef<PartialTranscriber | null>(null);
+    const onOtherInterimChangeRef = useRef(onOtherInterimChange);
 
     useEffect(() => {
-        groqApiKeyRef.current = groqApiKey;
+        transcriptionProviderRef.current = transcriptionProvider;
+        onSelfTranscriptRef.current = onSelfTranscript;
+        onInterimChangeRef.current = onInterimChange;
         onOtherTranscriptRef.current = onOtherTranscript;
-    }, [groqApiKey, onOtherTranscript]);
+        onPendingTranscriptionsChangeRef.current = onPendingTranscriptionsChange;
+        onOtherInterimChangeRef.current = onOtherInterimChange;
+    }, [
+        transcriptionProvider,
+        onSelfTranscript,
+        onInterimChange,
+        onOtherTranscript,
+        onPendingTranscriptionsChange,
+        onOtherInterimChange,
+    ]);
+
+    // Web Speech API がないブラウザ（Firefox など）では、設定に関わらず Whisper で文字起こしする
+    const isWebSpeechSupported = SpeechRecognitionEngine.isSupported();
+    const micUsesWhisper = micTranscriptionEngine === "whisper" || !isWebSpeechSupported;
+
+    useEffect(() => {
+        languageRef.current = { mic: micLanguage, system: systemLanguage };
+        // Web Speech API は自動判定できないため、auto は日本語として認識する
+        speechEngineRef.current?.setLanguage(toSpeechLocale(micLanguage));
+    }, [micLanguage, systemLanguage]);
+
+    useEffect(() => {
+        systemDiarizationRef.current = systemDiarization;
+        // 再び有効にした時は、最初に話した人から相手A として数え直す
+        if (!systemDiarization) {
+            speakerDiarizerRef.current?.reset();
+        }
+    }, [systemDiarization]);
+
+    // ログをクリアしたら、前の面接の話者と照合しないよう話者の記録も消す
+    useEffect(() => {
+        if (!hasLogs) {
+            speakerDiarizerRef.current?.reset();
+        }
+    }, [hasLogs]);
+
+    useEffect(() => {
+        systemInterimRef.current = systemInterim;
+        audioCaptureRef.current?.setSystemPartialsEnabled(systemInterim);
+        if (!systemInterim) {
+            partialTranscriberRef.current?.clear();
+        }
+    }, [systemInterim]);
+
+    // 共有を止めたら、確定しないまま残った暫定の発言を消す
+    useEffect(() => {
+        if (!systemAudioActive) {
+            partialTranscriberRef.current?.clear();
+        }
+    }, [systemAudioActive]);
+
+    useEffect(() => {
+        // 途中経過は話者分離せず、暫定表示だけに使う
+        // Groq の使用量が上限の8割を超えたら、確定する文字起こしに使えるよう途中経過を止める
+        const partials = new PartialTranscriber({
+            transcribe: (chunk) =>
+                transcriptionProviderRef.current.transcribe(chunk.blob, languageRef.current.system, {
+                    partial: true,
+                }),
+            onChange: (interims) => onOtherInterimChangeRef.current?.(interims),
+            isPaused: () =>
+                transcriptionProviderRef.current.id === "groq" &&
+                getBudgetStatuses().some((status) => status.service === "groq"),
+        });
+        partialTranscriberRef.current = partials;
+
+        return () => {
+            partials.dispose();
+            partialTranscriberRef.current = null;
+        };
+    }, []);
+
+    /**
+     * チャンクを文字起こしする
+     * 相手音声で話者分離が有効なら、文字起こしと並行して話者も判定する
+     * 再試行（isRetry）では、最初の試行で学習した話者の特徴を二重に学習しない
+     */
+    const transcribeChunk = useCallback(
+        async (
+            chunk: SystemAudioChunk,
+            channel: CaptureChannel,
+            isRetry: boolean = false
+        ): Promise<TranscriptionResult | null> => {
+            const provider = transcriptionProviderRef.current;
+            if (channel === "mic" || !systemDiarizationRef.current) {
+                return provider.transcribe(chunk.blob, languageRef.current[channel]);
+            }
+
+            speakerDiarizerRef.current ??= new SpeakerDiarizer();
+            const speakerPromise = speakerDiarizerRef.current.identify(chunk.blob, !isRetry);
+            const result = await provider.transcribe(chunk.blob, languageRef.current.system);
+            const speaker = await speakerPromise;
+            return result && speaker ? { ...result, speaker } : result;
+        },
+        []
+    );
+
+    useEffect(() => {
+        micDeviceIdRef.current = micDeviceId;
+        void audioCaptureRef.current?.setMicrophoneDevice(micDeviceId);
+    }, [micDeviceId]);
+
+    const gainSettingRef = useRef({ mode: systemGainMode, manualGain: systemManualGain });
+
+    useEffect(() => {
+        gainSettingRef.current = { mode: systemGainMode, manualGain: systemManualGain };
+        audioCaptureRef.current?.setSystemGainSetting(gainSettingRef.current);
+    }, [systemGainMode, systemManualGain]);
 
     useEffect(() => {
         onRecordingStateChange?.(micActive || systemAudioActive);
     }, [micActive, systemAudioActive, onRecordingStateChange]);
 
+    useEffect(() => {
+        onHealthWarningsChange?.(warnings);
+    }, [warnings, onHealthWarningsChange]);
+
     const handleEngineStateChange = useCallback((state: AudioCaptureState) => {
         setMicActive(state.micActive);
         setSystemAudioActive(state.systemAudioActive);
+        setLevels({
+            mic: state.micLevel,
+            system: state.systemLevel,
+            systemGain: state.systemGain,
+            systemClipping: state.systemClipping,
+        });
+        // 警告は内容が変わった時だけ更新する（レベル通知のたびに再描画しない）
+        setWarnings((prev) =>
+            getWarningsKey(prev) === getWarningsKey(state.warnings) ? prev : state.warnings
+        );
     }, []);
 
+    useEffect(() => {
+        // 失敗したチャンクは保存しておき、復旧したら録音時刻の位置にログへ挿入する
+        const backlog = new TranscriptionBacklog({
+            transcribe: (chunk, channel) => {
+                if (!transcriptionProviderRef.current.isConfigured()) {
+                    throw new TranscriptionError("文字起こしの設定が未完了です。", { retryable: false });
+                }
+                return transcribeChunk(chunk, channel, true);
+            },
+            onRecovered: (chunk, result, channel) => {
+                const { startedAt, endedAt } = getSpokenRange(chunk, result);
+                const details = { language: result.language, endedAt };
+                if (channel === "mic") {
+                    onSelfTranscriptRef.current(result.text, startedAt, details);
+                } else {
+                    onOtherTranscriptRef.current(result.text, startedAt, details, result.speaker);
+                }
+            },
+            onCountChange: setBacklogCount,
+        });
+        transcriptionBacklogRef.current = backlog;
+
+        return () => {
+            backlog.dispose();
+            transcriptionBacklogRef.current = null;
+        };
+    }, [transcribeChunk]);
+
+    const retryBacklog = useCallback(async () => {
+        if (!transcriptionBacklogRef.current) return;
+
+        setIsRetrying(true);
+        try {
+            await transcriptionBacklogRef.current.retryNow();
+        } finally {
+            setIsRetrying(false);
+        }
+    }, []);
+
+    /** 確定する文字起こしがレート制限（429）を受けたら、途中経過もしばらく止める */
+    const pausePartialsOnRateLimit = useCallback((error: unknown) => {
+        if (error instanceof TranscriptionError && error.status === 429) {
+            partialTranscriberRef.current?.pause(error.retryAfterMs);
+        }
+    }, []);
+
+    const ensureTranscriptionQueue = useCallback(() => {
+        if (!transcriptionQueueRef.current) {
+            transcriptionQueueRef.current = new TranscriptionQueue({
+                transcribe: (chunk) => transcribeChunk(chunk, "system"),
+                onResult: (chunk, result) => {
+                    partialTranscriberRef.current?.complete(chunk.timestamp);
+                    if (!result) return;
+                    const { startedAt, endedAt } = getSpokenRange(chunk, result);
+                    onOtherTranscriptRef.current(
+                        result.text,
+                        startedAt,
+                        { language: result.language, endedAt },
+                        result.speaker
+                    );
+                },
+                onError: (chunk, error) => {
+                    partialTranscriberRef.current?.complete(chunk.timestamp);
+                    pausePartialsOnRateLimit(error);
+                    void addToTranscriptionBacklog(chunk, error);
+                },
+                onPendingChange: (pending) => onPendingTranscriptionsChangeRef.current?.(pending),
+            });
+        }
+
+        return transcriptionQueueRef.current;
+    }, [pausePartialsOnRateLimit, transcribeChunk]);
+
+    /** Whisper で文字起こしする場合のマイク用キュー（相手側とは別に録音順を保つ） */
+    const ensureMicTranscriptionQueue = useCallback(() => {
+        if (!micTranscriptionQueueRef.current) {
+            micTranscriptionQueueRef.current = new TranscriptionQueue({
+                concurrency: 1,
+                transcribe: (chunk) =>
+                    transcriptionProviderRef.current.transcribe(chunk.blob, languageRef.current.mic),
+                onResult: (chunk, result) => {
+                    if (!result) return;
+                    const { startedAt, endedAt } = getSpokenRange(chunk, result);
+                    const echoScore = audioCaptureRef.current?.getEchoCorrelation(
+                        startedAt,
+                        endedAt ?? Date.now()
+                    );
+                    onSelfTranscriptRef.current(result.text, startedAt, {
+                        echoScore: echoScore ?? undefined,
+                        language: result.language,
+                        endedAt,
+                    });
+                },
+                onError: (chunk, error) => {
+                    pausePartialsOnRateLimit(error);
+                    void addToTranscriptionBacklog(chunk, error, "mic");
+                },
+            });
+        }
+
+        return micTranscriptionQueueRef.current;
+    }, [pausePartialsOnRateLimit]);
+
     const ensureAudioCapture = useCallback(() => {
         if (!audioCaptureRef.current) {
             audioCaptureRef.current = new AudioCaptureEngine({
-                onChunk: async (chunk: SystemAudioChunk) => {
-                    if (!groqApiKeyRef.current) return;
-
-                    try {
-                        const text = await transcribeWithGroq(chunk.blob, groqApiKeyRef.current);
-                        if (text) {
-                            onOtherTranscriptRef.current(text);
-                        }
-                    } catch (error) {
-                        console.error("相手音声の文字起こしに失敗しました:", error);
-                    }
+                onChunk: (chunk: SystemAudioChunk) => {
+                    if (!transcriptionProviderRef.current.isConfigured()) return;
+                    // 応答の速さに関わらず録音順にログへ追加する
+                    ensureTranscriptionQueue().enqueue(chunk);
+                },
+                onPartialChunk: (chunk: SystemAudioChunk) => {
+                    if (!transcriptionProviderRef.current.isConfigured()) return;
+                    partialTranscriberRef.current?.push(chunk);
+                },
+                onMicChunk: (chunk: SystemAudioChunk) => {
+                    if (!transcriptionProviderRef.current.isConfigured()) return;
+                    ensureMicTranscriptionQueue().enqueue(chunk);
                 },
                 onStateChange: handleEngineStateChange,
+                onMicrophoneSwitch: (message) => {
+                    console.warn("マイク切り替え:", message);
+                    setMicNotice(createMicNotice(message));
+                    // Web Speech API は開始時のデバイスに張り付くため、認識も開始し直す
+                    if (speechEngineRef.current?.getIsRunning()) {
+                        speechEngineRef.current.stop();
+                        speechEngineRef.current.start();
+                    }
+                },
+                onMicrophoneLost: (message) => {
+                    console.warn("マイク切断:", message);
+                    setMicNotice(createMicNotice(message));
+                    // マイクがない間は音声認識も止め、「録音中」の表示を消す
+                    speechEngineRef.current?.stop();
+                    setMicActive(false);
+                },
             });
+            audioCaptureRef.current.setSystemGainSetting(gainSettingRef.current);
+            audioCaptureRef.current.setSystemPartialsEnabled(systemInterimRef.current);
         }
 
         return audioCaptureRef.current;
-    }, [handleEngineStateChange]);
+    }, [ensureMicTranscriptionQueue, ensureTranscriptionQueue, handleEngineStateChange]);
 
-    const toggleMicrophone = useCallback(() => {
+    const toggleMicrophone = useCallback(async () => {
         if (micActive) {
             speechEngineRef.current?.stop();
             audioCaptureRef.current?.stopMicrophone();
@@ -75,20 +385,56 @@ export default function RecordingControl({
             return;
         }
 
+        if (micUsesWhisper) {
+            if (!transcriptionProviderRef.current.isConfigured()) {
+                alert("マイクをWhisperで文字起こしするには、設定画面で文字起こしサービスを設定してください。");
+                return;
+            }
+            const capture = ensureAudioCapture();
+            capture.setMicChunkingEnabled(true);
+            if (!(await capture.startMicrophone(micDeviceIdRef.current))) {
+                alert(MIC_START_FAILED_MESSAGE);
+                return;
+            }
+            setMicActive(true);
+            return;
+        }
+
         if (!speechEngineRef.current) {
             speechEngineRef.current = new SpeechRecognitionEngine({
-                onFinalResult: onSelfTranscript,
-                onInterimResult: onInterimChange,
+                onFinalResult: (text, startedAt, { confidence, alternatives }) => {
+                    // 発話区間の2チャンネルの相関を回り込み判定の材料として渡す
+                    const endedAt = Date.now();
+                    const echoScore = audioCaptureRef.current?.getEchoCorrelation(startedAt, endedAt);
+                    const language = languageRef.current.mic;
+                    // エンジンは使い回すため、辞書などの最新の設定を反映したコールバックを呼ぶ
+                    onSelfTranscriptRef.current(text, startedAt, {
+                        echoScore: echoScore ?? undefined,
+                        language: language === "auto" ? "ja" : language,
+                        endedAt,
+                        confidence,
+                        alternatives,
+                    });
+                },
+                onInterimResult: (text) => onInterimChangeRef.current(text),
                 onError: (error) => console.error("音声認識エラー:", error),
+                onStatusChange: setSpeechStatus,
             });
         }
+        speechEngineRef.current.setLanguage(toSpeechLocale(languageRef.current.mic));
 
         const started = speechEngineRef.current.start();
         if (started) {
-            void ensureAudioCapture().startMicrophone();
+            const capture = ensureAudioCapture();
+            capture.setMicChunkingEnabled(false);
+            if (!(await capture.startMicrophone(micDeviceIdRef.current))) {
+                speechEngineRef.current.stop();
+                alert(MIC_START_FAILED_MESSAGE);
+                return;
+            }
             setMicActive(true);
         }
-    }, [ensureAudioCapture, micActive, onInterimChange, onSelfTranscript]);
+    }, [ensureAudioCapture, micActive, micUsesWhisper]);
 
     const toggleSystemAudio = useCallback(async () => {
         if (systemAudioActive) {
@@ -99,6 +445,11 @@ export default function RecordingControl({
         await ensureAudioCapture().startSystemAudio();
     }, [ensureAudioCapture, systemAudioActive]);
 
+    /** 許可の変更などで恒久的なエラーを解消した後に、認識だけを開始し直す */
+    const restartSpeechRecognition = useCallback(() => {
+        speechEngineRef.current?.start();
+    }, []);
+
     const stopAll = useCallback(() => {
         speechEngineRef.current?.stop();
         audioCaptureRef.current?.stopAll();
@@ -112,6 +463,11 @@ export default function RecordingControl({
     }, []);
 
     const isAnyActive = micActive || systemAudioActive;
+    // Web Speech の認識が止まっている間は「録音中」と表示しない
+    const speechProblem =
+        micActive && !micUsesWhisper && (speechStatus.state === "reconnecting" || speechStatus.state === "failed")
+            ? speechStatus
+            : null;
 
     return (
         <div className="space-y-3">
@@ -162,25 +518,157 @@ export default function RecordingControl({
             </div>
 
             <p className="rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs leading-relaxed text-emerald-900">
-                イヤホン利用時は、相手の音声がマイクに回り込みません。相手の音声は「相手の音声も取得」から共有し、共有画面で「音声を共有」を有効にしてください。
+                相手の音声は「相手の音声も取得」から共有し、共有画面で「音声を共有」を有効にしてください。スピーカー利用時に相手の声がマイクへ回り込んでも、重複した発言は自動で判定されます。
             </p>
 
             <div className="flex flex-wrap gap-2">
                 <Badge variant={micActive ? "default" : "secondary"} className="text-xs">
                     <Mic className="mr-1 h-3 w-3" />
-                    CH1 自分: {micActive ? "録音中" : "停止"}
+                    CH1 自分: {getMicStatusLabel(micActive, speechProblem)}
+                    {micUsesWhisper && <span className="ml-1 opacity-80">Whisper</span>}
+                    {micActive && (
+                        <LevelMeter level={levels.mic} warning={hasChannelWarning(warnings, "mic")} />
+                    )}
                 </Badge>
                 <Badge variant={systemAudioActive ? "default" : "secondary"} className="text-xs">
                     <Monitor className="mr-1 h-3 w-3" />
                     CH2 相手: {systemAudioActive ? "キャプチャ中" : "停止"}
+                    {systemAudioActive && (
+                        <>
+                            <LevelMeter
+                                level={levels.system}
+                                warning={levels.systemClipping || hasChannelWarning(warnings, "system")}
+                            />
+                            <span
+                                className="ml-1 font-mono text-[10px] opacity-80"
+                                title={systemGainMode === "auto" ? "自動調整中の増幅率" : "手動設定の増幅率"}
+                            >
+                                ×{levels.systemGain.toFixed(1)}
+                                {systemGainMode === "auto" ? " 自動" : ""}
+                            </span>
+                        </>
+                    )}
                 </Badge>
             </div>
 
-            {!groqApiKey && systemAudioActive && (
+            {speechProblem?.error && (
+                <div
+                    className={`flex items-start gap-1.5 rounded-md p-2 text-xs ${
+                        speechProblem.state === "failed"
+                            ? "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300"
+                            : "bg-amber-50 text-amber-700 dark:bg-amber-950 dark:text-amber-300"
+                    }`}
+                >
+                    <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                    <span className="flex-1">
+                        {speechProblem.error.message}
+                        {speechProblem.state === "reconnecting" &&
+                            ` ${Math.ceil((speechProblem.retryInMs ?? 0) / 1000)}秒後に自動で再接続します。`}
+                    </span>
+                    {speechProblem.state === "failed" && (
+                        <Button
+                            onClick={restartSpeechRecognition}
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                        >
+                            <RotateCw className="mr-1 h-3 w-3" />
+                            もう一度開始
+                        </Button>
+                    )}
+                </div>
+            )}
+
+            {micNotice && (
+                <div className="flex items-start gap-1.5 rounded-md bg-sky-50 p-2 text-xs text-sky-800 dark:bg-sky-950 dark:text-sky-200">
+                    <Info className="mt-0.5 h-3 w-3 shrink-0" />
+                    <span className="flex-1">
+                        {micNotice.time} {micNotice.message}
+                    </span>
+                    <button
+                        onClick={() => setMicNotice(null)}
+                        className="text-sky-700 hover:text-sky-900"
+                        aria-label="通知を閉じる"
+                    >
+                        <X className="h-3 w-3" />
+                    </button>
+                </div>
+            )}
+
+            {warnings.length > 0 && (
+                <ul className="space-y-1 rounded-md bg-amber-50 p-2 text-xs text-amber-700 dark:bg-amber-950 dark:text-amber-300">
+                    {warnings.map((warning) => (
+                        <li key={`${warning.channel}-${warning.issue}`} className="flex items-start gap-1.5">
+                            <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                            {warning.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {!isWebSpeechSupported && micTranscriptionEngine === "web-speech" && (
+                <p className="rounded-md bg-sky-50 p-2 text-xs text-sky-800 dark:bg-sky-950 dark:text-sky-200">
+                    このブラウザは音声認識（Web Speech API）に対応していないため、自分の声も文字起こしサービス（Whisper）で文字起こしします。
+                </p>
+            )}
+
+            {backlogCount > 0 && (
+                <div className="flex items-center gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-700 dark:bg-amber-950 dark:text-amber-300">
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                    <span className="flex-1">
+                        {backlogCount}件の文字起こしが保留中です。通信が回復すると自動で再試行します。
+                    </span>
+                    <Button
+                        onClick={() => void retryBacklog()}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        disabled={isRetrying}
+                    >
+                        <RotateCw className={`mr-1 h-3 w-3 ${isRetrying ? "animate-spin" : ""}`} />
+                        今すぐ再試行
+                    </Button>
+                </div>
+            )}
+
+            {!transcriptionProvider.isConfigured() && systemAudioActive && (
                 <p className="rounded-md bg-amber-50 p-2 text-xs text-amber-600 dark:bg-amber-950 dark:text-amber-300">
-                    Groq APIキーが未設定のため、相手の音声はキャプチャのみで文字起こしされません。設定画面からAPIキーを入力してください。
+                    文字起こしの設定が未完了のため、相手の音声はキャプチャのみで文字起こしされません。設定画面からAPIキーまたはサーバーを設定してください。
                 </p>
             )}
         </div>
     );
 }
+
+function LevelMeter({ level, warning }: { level: number; warning: boolean }) {
+    return (
+        <span className="ml-1.5 inline-block h-1.5 w-12 overflow-hidden rounded-full bg-white/30">
+            <span
+                className={`block h-full rounded-full transition-[width] duration-100 ${warning ? "bg-amber-400" : "bg-emerald-300"}`}
+                style={{ width: `${Math.round(level * 100)}%` }}
+            />
+        </span>
+    );
+}
+
+function createMicNotice(message: string): { message: string; time: string } {
+    return {
+        message,
+        time: new Date().toLocaleTimeString("ja-JP", { hour: "2-digit", minute: "2-digit" }),
+    };
+}
+
+function getMicStatusLabel(micActive: boolean, speechProblem: SpeechRecognitionStatus | null): string {
+    if (!micActive) return "停止";
+    if (speechProblem?.state === "failed") return "認識停止";
+    if (speechProblem?.state === "reconnecting") return "再接続中";
+    return "録音中";
+}
+
+function hasChannelWarning(warnings: AudioHealthWarning[], channel: AudioHealthWarning["channel"]): boolean {
+    return warnings.some((warning) => warning.channel === channel);
+}
+
+function getWarningsKey(warnings: AudioHealthWarning[]): string {
+    return warnings.map((warning) => `${warning.channel}:${warning.issue}`).join(",");
+}
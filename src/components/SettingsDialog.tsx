@@ -1,14 +1,19 @@
 "use client";
 
-import { useState, type ReactNode } from "react";
+import { useCallback, useState, type ReactNode } from "react";
 import {
   Activity,
   CheckCircle2,
+  Copy,
   ExternalLink,
   Eye,
   EyeOff,
   Key,
+  Mic,
+  Server,
   Settings,
+  Sparkles,
+  Volume2,
   XCircle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -22,33 +27,126 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { GEMINI_MODEL_OPTIONS } from "@/hooks/useInterviewStore";
+import HallucinationFilterEditor from "@/components/HallucinationFilterEditor";
+import LocalWhisperModelManager from "@/components/LocalWhisperModelManager";
+import UsageBudgetEditor from "@/components/UsageBudgetEditor";
+import VocabularyEditor from "@/components/VocabularyEditor";
+import { GEMINI_MODEL_OPTIONS, type CandidateBasicInfo } from "@/hooks/useInterviewStore";
+import { listAudioInputDevices } from "@/lib/audio-capture";
+import type { BleedHandling } from "@/lib/bleed-detection";
+import { MAX_SYSTEM_GAIN, MIN_SYSTEM_GAIN, type SystemGainMode } from "@/lib/gain-control";
+import { LANGUAGE_OPTIONS, type RecognitionLanguage } from "@/lib/recognition-language";
+import { SpeechRecognitionEngine, type MicTranscriptionEngine } from "@/lib/speech-recognition";
 import { testGeminiConnection } from "@/lib/gemini-service";
 import { testGroqConnection } from "@/lib/groq-service";
+import {
+  createLlmProvider,
+  LLM_PROVIDER_OPTIONS,
+  type LlmProviderId,
+  type LlmProviderSettings,
+} from "@/lib/llm-provider";
+import {
+  createTranscriptionProvider,
+  TRANSCRIPTION_PROVIDER_OPTIONS,
+  type TranscriptionProviderId,
+  type TranscriptionProviderSettings,
+} from "@/lib/transcription-provider";
+import type { VocabularySettings } from "@/lib/vocabulary";
 
 interface SettingsDialogProps {
   groqApiKey: string;
   geminiApiKey: string;
   geminiModel: string;
+  llmProvider: LlmProviderSettings;
+  transcriptionProvider: TranscriptionProviderSettings;
+  micDeviceId: string;
+  micTranscriptionEngine: MicTranscriptionEngine;
+  micLanguage: RecognitionLanguage;
+  systemLanguage: RecognitionLanguage;
+  vocabulary: VocabularySettings;
+  /** 用語辞書に加える候補者の基本情報 */
+  candidateInfo?: CandidateBasicInfo;
+  hallucinationPhrases: string;
+  systemDiarization: boolean;
+  systemInterim: boolean;
+  systemGainMode: SystemGainMode;
+  systemManualGain: number;
+  bleedHandling: BleedHandling;
   onGroqApiKeyChange: (key: string) => void;
   onGeminiApiKeyChange: (key: string) => void;
   onGeminiModelChange: (model: string) => void;
+  onLlmProviderChange: (settings: Partial<LlmProviderSettings>) => void;
+  onTranscriptionProviderChange: (settings: Partial<TranscriptionProviderSettings>) => void;
+  onMicDeviceIdChange: (deviceId: string) => void;
+  onMicTranscriptionEngineChange: (engine: MicTranscriptionEngine) => void;
+  onMicLanguageChange: (language: RecognitionLanguage) => void;
+  onSystemLanguageChange: (language: RecognitionLanguage) => void;
+  onVocabularyChange: (vocabulary: Partial<VocabularySettings>) => void;
+  onHallucinationPhrasesChange: (phrases: string) => void;
+  onSystemDiarizationChange: (enabled: boolean) => void;
+  onSystemInterimChange: (enabled: boolean) => void;
+  onSystemGainModeChange: (mode: SystemGainMode) => void;
+  onSystemManualGainChange: (gain: number) => void;
+  onBleedHandlingChange: (handling: BleedHandling) => void;
 }
 
+const SELECT_CLASS_NAME =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
 type TestStatus = "idle" | "testing" | "success" | "error";
 
 export default function SettingsDialog({
   groqApiKey,
   geminiApiKey,
   geminiModel,
+  llmProvider,
+  transcriptionProvider,
+  micDeviceId,
+  micTranscriptionEngine,
+  micLanguage,
+  systemLanguage,
+  vocabulary,
+  candidateInfo,
+  hallucinationPhrases,
+  systemDiarization,
+  systemInterim,
+  systemGainMode,
+  systemManualGain,
+  bleedHandling,
   onGroqApiKeyChange,
   onGeminiApiKeyChange,
   onGeminiModelChange,
+  onLlmProviderChange,
+  onTranscriptionProviderChange,
+  onMicDeviceIdChange,
+  onMicTranscriptionEngineChange,
+  onMicLanguageChange,
+  onSystemLanguageChange,
+  onVocabularyChange,
+  onHallucinationPhrasesChange,
+  onSystemDiarizationChange,
+  onSystemInterimChange,
+  onSystemGainModeChange,
+  onSystemManualGainChange,
+  onBleedHandlingChange,
 }: SettingsDialogProps) {
   const [showGroqKey, setShowGroqKey] = useState(false);
   const [showGeminiKey, setShowGeminiKey] = useState(false);
   const [groqStatus, setGroqStatus] = useState<TestStatus>("idle");
   const [geminiStatus, setGeminiStatus] = useState<TestStatus>("idle");
+  const [showServerKey, setShowServerKey] = useState(false);
+  const [providerStatus, setProviderStatus] = useState<TestStatus>("idle");
+  const [showLlmKey, setShowLlmKey] = useState(false);
+  const [llmStatus, setLlmStatus] = useState<TestStatus>("idle");
+  const [micDevices, setMicDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const loadMicDevices = useCallback(async () => {
+    try {
+      setMicDevices(await listAudioInputDevices());
+    } catch (error) {
+      console.error("マイク一覧の取得に失敗しました:", error);
+    }
+  }, []);
 
   const testGroq = async () => {
     setGroqStatus("testing");
@@ -60,6 +158,16 @@ export default function SettingsDialog({
     }, 300);
   };
 
+  const testTranscriptionProvider = async () => {
+    setProviderStatus("testing");
+    const result = await createTranscriptionProvider(transcriptionProvider, groqApiKey).testConnection();
+    setProviderStatus(result.success ? "success" : "error");
+    setTimeout(() => {
+      alert(result.message);
+      setProviderStatus("idle");
+    }, 300);
+  };
+
   const testGemini = async () => {
     setGeminiStatus("testing");
     const result = await testGeminiConnection(geminiApiKey, geminiModel);
@@ -70,8 +178,18 @@ export default function SettingsDialog({
     }, 300);
   };
 
+  const testLlmProvider = async () => {
+    setLlmStatus("testing");
+    const result = await createLlmProvider(llmProvider, geminiApiKey, geminiModel).testConnection();
+    setLlmStatus(result.success ? "success" : "error");
+    setTimeout(() => {
+      alert(result.message);
+      setLlmStatus("idle");
+    }, 300);
+  };
+
   return (
-    <Dialog>
+    <Dialog onOpenChange={(open) => open && void loadMicDevices()}>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm" className="text-xs gap-1">
           <Settings className="h-3.5 w-3.5" />
@@ -90,55 +208,464 @@ export default function SettingsDialog({
         </DialogHeader>
 
         <div className="space-y-4 mt-4">
-          <ApiKeyField
-            label="Gemini API（書類の基本情報・要約）"
-            description="モデルは接続テストで確認してから使えます。"
-            href="https://aistudio.google.com/app/apikey"
-            placeholder="AIza..."
-            value={geminiApiKey}
-            visible={showGeminiKey}
-            status={geminiStatus}
-            onVisibleChange={setShowGeminiKey}
-            onChange={onGeminiApiKeyChange}
-            onTest={testGemini}
-          >
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <Label htmlFor="llm-provider" className="text-sm font-bold flex items-center gap-1.5">
+              <Sparkles className="h-3.5 w-3.5" />
+              AIサービス（書類の基本情報・要約）
+            </Label>
+            <select
+              id="llm-provider"
+              value={llmProvider.provider}
+              onChange={(event) => onLlmProviderChange({ provider: event.target.value as LlmProviderId })}
+              className={SELECT_CLASS_NAME}
+            >
+              {LLM_PROVIDER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            {llmProvider.provider === "openai-compatible" && (
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label htmlFor="llm-base-url" className="text-xs">
+                    APIのURL
+                  </Label>
+                  <Input
+                    id="llm-base-url"
+                    value={llmProvider.openAiBaseUrl}
+                    onChange={(event) => onLlmProviderChange({ openAiBaseUrl: event.target.value })}
+                    placeholder="https://api.openai.com/v1"
+                    className="text-sm font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="llm-model" className="text-xs">
+                    モデル名（Azure OpenAIではデプロイ名）
+                  </Label>
+                  <Input
+                    id="llm-model"
+                    value={llmProvider.openAiModel}
+                    onChange={(event) => onLlmProviderChange({ openAiModel: event.target.value })}
+                    placeholder="gpt-4.1-mini"
+                    className="text-sm font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="llm-api-key" className="text-xs">
+                    APIキー（認証がない場合は空欄）
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id="llm-api-key"
+                      type={showLlmKey ? "text" : "password"}
+                      value={llmProvider.openAiApiKey}
+                      onChange={(event) => onLlmProviderChange({ openAiApiKey: event.target.value })}
+                      placeholder="sk-..."
+                      className="pr-10 text-sm font-mono"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowLlmKey(!showLlmKey)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      aria-label={showLlmKey ? "APIキーを隠す" : "APIキーを表示"}
+                    >
+                      {showLlmKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="llm-api-version" className="text-xs">
+                    api-version（Azure OpenAIのデプロイのURLを使う場合）
+                  </Label>
+                  <Input
+                    id="llm-api-version"
+                    value={llmProvider.openAiApiVersion}
+                    onChange={(event) => onLlmProviderChange({ openAiApiVersion: event.target.value })}
+                    placeholder="2024-10-21"
+                    className="text-sm font-mono"
+                  />
+                  <p className="text-[10px] text-muted-foreground">
+                    Azure OpenAIのデプロイのURL（…/openai/deployments/デプロイ名）ではapi-versionを指定してください。APIキーをapi-keyヘッダーで送ります。…/openai/v1 のURLでは空欄のままにします。
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {llmProvider.provider === "ollama" && (
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label htmlFor="llm-ollama-url" className="text-xs">
+                    OllamaのURL
+                  </Label>
+                  <Input
+                    id="llm-ollama-url"
+                    value={llmProvider.ollamaBaseUrl}
+                    onChange={(event) => onLlmProviderChange({ ollamaBaseUrl: event.target.value })}
+                    placeholder="http://localhost:11434"
+                    className="text-sm font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="llm-ollama-model" className="text-xs">
+                    モデル名
+                  </Label>
+                  <Input
+                    id="llm-ollama-model"
+                    value={llmProvider.ollamaModel}
+                    onChange={(event) => onLlmProviderChange({ ollamaModel: event.target.value })}
+                    placeholder="qwen3:8b"
+                    className="text-sm font-mono"
+                  />
+                </div>
+              </div>
+            )}
+
+            {llmProvider.provider !== "gemini" && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-[10px] text-muted-foreground">
+                  {llmProvider.provider === "ollama"
+                    ? "書類を外部に送らず、このPCのOllamaで解析します。PDFは読めないため、書類はテキストで読み込んでください。ブラウザから呼び出すには、Ollamaの環境変数 OLLAMA_ORIGINS にこのページのURLを加えてください。使用量は記録しません。"
+                    : "OpenAIの /chat/completions 形式（構造化出力）に対応したAPIに書類を送ります。PDFをそのまま送るには、PDF入力に対応したモデルが必要です。応答が返したトークン数を「使用量と上限」に記録します。"}
+                </p>
+                <TestButton status={llmStatus} onTest={testLlmProvider} />
+              </div>
+            )}
+          </div>
+
+          {llmProvider.provider === "gemini" && (
+            <ApiKeyField
+              label="Gemini API（書類の基本情報・要約）"
+              description="モデルは接続テストで確認してから使えます。"
+              href="https://aistudio.google.com/app/apikey"
+              placeholder="AIza..."
+              value={geminiApiKey}
+              visible={showGeminiKey}
+              status={geminiStatus}
+              onVisibleChange={setShowGeminiKey}
+              onChange={onGeminiApiKeyChange}
+              onTest={testGemini}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="gemini-model" className="text-xs">
+                  使用モデル
+                </Label>
+                <select
+                  id="gemini-model"
+                  value={geminiModel}
+                  onChange={(event) => onGeminiModelChange(event.target.value)}
+                  className={SELECT_CLASS_NAME}
+                >
+                  {GEMINI_MODEL_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </ApiKeyField>
+          )}
+
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <Label htmlFor="transcription-provider" className="text-sm font-bold flex items-center gap-1.5">
+              <Server className="h-3.5 w-3.5" />
+              文字起こしサービス（相手側音声・録音ファイル）
+            </Label>
+            <select
+              id="transcription-provider"
+              value={transcriptionProvider.provider}
+              onChange={(event) =>
+                onTranscriptionProviderChange({ provider: event.target.value as TranscriptionProviderId })
+              }
+              className={SELECT_CLASS_NAME}
+            >
+              {TRANSCRIPTION_PROVIDER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            {transcriptionProvider.provider === "openai-compatible" && (
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label htmlFor="transcription-base-url" className="text-xs">
+                    サーバーのURL
+                  </Label>
+                  <Input
+                    id="transcription-base-url"
+                    value={transcriptionProvider.baseUrl}
+                    onChange={(event) => onTranscriptionProviderChange({ baseUrl: event.target.value })}
+                    placeholder="http://localhost:8000/v1"
+                    className="text-sm font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="transcription-model" className="text-xs">
+                    モデル名
+                  </Label>
+                  <Input
+                    id="transcription-model"
+                    value={transcriptionProvider.model}
+                    onChange={(event) => onTranscriptionProviderChange({ model: event.target.value })}
+                    placeholder="whisper-1"
+                    className="text-sm font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="transcription-api-key" className="text-xs">
+                    APIキー（認証がない場合は空欄）
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id="transcription-api-key"
+                      type={showServerKey ? "text" : "password"}
+                      value={transcriptionProvider.apiKey}
+                      onChange={(event) => onTranscriptionProviderChange({ apiKey: event.target.value })}
+                      className="pr-10 text-sm font-mono"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowServerKey(!showServerKey)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      aria-label={showServerKey ? "APIキーを隠す" : "APIキーを表示"}
+                    >
+                      {showServerKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {transcriptionProvider.provider === "local" && (
+              <LocalWhisperModelManager
+                model={transcriptionProvider.localModel}
+                selectClassName={SELECT_CLASS_NAME}
+                onModelChange={(localModel) => onTranscriptionProviderChange({ localModel })}
+              />
+            )}
+
+            {transcriptionProvider.provider !== "groq" && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-[10px] text-muted-foreground">
+                  {transcriptionProvider.provider === "mock"
+                    ? "通信せずに固定の文を返します。画面の動作確認に使います。"
+                    : transcriptionProvider.provider === "local"
+                      ? "音声を外部に送らず、このPCで文字起こしします。モデルを一度ダウンロードすればオフラインでも使えます。"
+                      : "OpenAIの /audio/transcriptions 形式に対応したサーバー（faster-whisper、whisper.cppなど）に音声を送ります。"}
+                </p>
+                <TestButton status={providerStatus} onTest={testTranscriptionProvider} />
+              </div>
+            )}
+          </div>
+
+          {transcriptionProvider.provider === "groq" && (
+            <ApiKeyField
+              label="Groq API（相手側音声の文字起こし）"
+              description="Whisperモデルでブラウザタブやアプリ音声を文字起こしします。"
+              href="https://console.groq.com/keys"
+              placeholder="gsk_..."
+              value={groqApiKey}
+              visible={showGroqKey}
+              status={groqStatus}
+              onVisibleChange={setShowGroqKey}
+              onChange={onGroqApiKeyChange}
+              onTest={testGroq}
+            />
+          )}
+
+          <VocabularyEditor
+            vocabulary={vocabulary}
+            candidateInfo={candidateInfo}
+            onChange={onVocabularyChange}
+          />
+
+          <HallucinationFilterEditor
+            phrases={hallucinationPhrases}
+            onChange={onHallucinationPhrasesChange}
+          />
+
+          <UsageBudgetEditor />
+
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <Label htmlFor="mic-device" className="text-sm font-bold flex items-center gap-1.5">
+              <Mic className="h-3.5 w-3.5" />
+              マイク（CH1 自分の声）
+            </Label>
+            <select
+              id="mic-device"
+              value={micDeviceId}
+              onChange={(event) => onMicDeviceIdChange(event.target.value)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">既定のマイク</option>
+              {micDevices
+                .filter((device) => device.deviceId && device.deviceId !== "default")
+                .map((device, index) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label || `マイク ${index + 1}`}
+                  </option>
+                ))}
+              {micDeviceId && !micDevices.some((device) => device.deviceId === micDeviceId) && (
+                <option value={micDeviceId}>（未接続のマイク）</option>
+              )}
+            </select>
+            <p className="text-[10px] text-muted-foreground">
+              録音とレベル表示に使うマイクです。抜き差しすると自動で切り替わります。Web Speech APIの認識はChromeの既定マイクに従うため、あわせてChromeの設定も確認してください。
+            </p>
             <div className="space-y-1">
-              <Label htmlFor="gemini-model" className="text-xs">
-                使用モデル
+              <Label htmlFor="mic-transcription-engine" className="text-xs">
+                文字起こし方法
               </Label>
               <select
-                id="gemini-model"
-                value={geminiModel}
-                onChange={(event) => onGeminiModelChange(event.target.value)}
-                className="h-9 w-full rounded-md border border-input bg-background px-3 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                id="mic-transcription-engine"
+                value={micTranscriptionEngine}
+                onChange={(event) =>
+                  onMicTranscriptionEngineChange(event.target.value as MicTranscriptionEngine)
+                }
+                className={SELECT_CLASS_NAME}
               >
-                {GEMINI_MODEL_OPTIONS.map((option) => (
-                  <option key={option.value} value={option.value}>
-                    {option.label}
-                  </option>
-                ))}
+                <option value="web-speech">Web Speech（ブラウザの音声認識・リアルタイム）</option>
+                <option value="whisper">Whisper（文字起こしサービスに送信）</option>
               </select>
+              <p className="text-[10px] text-muted-foreground">
+                {SpeechRecognitionEngine.isSupported()
+                  ? "Whisperは発話の区切りごとに送るため、表示まで数秒かかります。変更は次に録音を開始した時から反映されます。"
+                  : "このブラウザはWeb Speechに対応していないため、常にWhisperで文字起こしします。"}
+              </p>
             </div>
-          </ApiKeyField>
-
-          <ApiKeyField
-            label="Groq API（相手側音声の文字起こし）"
-            description="Whisperモデルでブラウザタブやアプリ音声を文字起こしします。"
-            href="https://console.groq.com/keys"
-            placeholder="gsk_..."
-            value={groqApiKey}
-            visible={showGroqKey}
-            status={groqStatus}
-            onVisibleChange={setShowGroqKey}
-            onChange={onGroqApiKeyChange}
-            onTest={testGroq}
-          />
+            <LanguageSelect
+              id="mic-language"
+              value={micLanguage}
+              onChange={onMicLanguageChange}
+              description="自動判定はWhisperのみ対応です。Web Speechで文字起こしする場合は日本語として認識します。"
+            />
+          </div>
+
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <Label htmlFor="system-gain-mode" className="text-sm font-bold flex items-center gap-1.5">
+              <Volume2 className="h-3.5 w-3.5" />
+              相手の音声（CH2）
+            </Label>
+            <select
+              id="system-gain-mode"
+              value={systemGainMode}
+              onChange={(event) => onSystemGainModeChange(event.target.value as SystemGainMode)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="auto">自動調整（推奨）</option>
+              <option value="manual">手動で倍率を指定</option>
+            </select>
+            {systemGainMode === "manual" && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min={MIN_SYSTEM_GAIN}
+                  max={MAX_SYSTEM_GAIN}
+                  step={0.5}
+                  value={systemManualGain}
+                  onChange={(event) => onSystemManualGainChange(Number(event.target.value))}
+                  className="flex-1 accent-emerald-600"
+                  aria-label="増幅率"
+                />
+                <span className="w-12 text-right font-mono text-xs">×{systemManualGain.toFixed(1)}</span>
+              </div>
+            )}
+            <p className="text-[10px] text-muted-foreground">
+              自動調整では、会議の音量に合わせて増幅率を変え、音割れしないようリミッターをかけます。うまく聞き取れない場合だけ手動にしてください。
+            </p>
+            <LanguageSelect
+              id="system-language"
+              value={systemLanguage}
+              onChange={onSystemLanguageChange}
+              description="相手の音声と読み込んだ録音ファイルに使います。自動判定にすると、発言ごとにWhisperが判定した言語をログに表示します。"
+            />
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={systemDiarization}
+                onChange={(event) => onSystemDiarizationChange(event.target.checked)}
+                className="accent-emerald-600"
+              />
+              相手の話者を分ける（相手A・相手B…）
+            </label>
+            <p className="text-[10px] text-muted-foreground">
+              複数人が参加する面接・会議向けです。発言ごとに声の特徴を比べて話者を推定します（ブラウザ内で処理します）。ヘッダーの「参加者」で、話者ごとに参加者の名前を割り当てられます。
+            </p>
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={systemInterim}
+                onChange={(event) => onSystemInterimChange(event.target.checked)}
+                className="accent-emerald-600"
+              />
+              相手の発言を話している途中から表示する
+            </label>
+            <p className="text-[10px] text-muted-foreground">
+              発言の途中でも数秒ごとに文字起こしし、暫定の吹き出しとして表示します。発言が終わると確定したログに置き換わります。文字起こしサービスへの送信回数が増えます。
+            </p>
+          </div>
+
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+            <Label htmlFor="bleed-handling" className="text-sm font-bold flex items-center gap-1.5">
+              <Copy className="h-3.5 w-3.5" />
+              マイクへの回り込み対策
+            </Label>
+            <select
+              id="bleed-handling"
+              value={bleedHandling}
+              onChange={(event) => onBleedHandlingChange(event.target.value as BleedHandling)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="flag">重複に目印を付けて表示する（推奨）</option>
+              <option value="suppress">文字も重なる重複を非表示にする</option>
+              <option value="off">判定しない</option>
+            </select>
+            <p className="text-[10px] text-muted-foreground">
+              スピーカーから出た相手の声がマイクに入ると、同じ発言が「自分」と「相手」の両方に記録されます。音量の変化と文字の重なりから判定し、「自分」側の重複を扱います。同時に話した場合も音量の変化が似るため、非表示にするのは相手の発言と文字も重なった場合だけです。非表示にした発言はコピーと出力にも含まれません。
+            </p>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
   );
 }
 
+function LanguageSelect({
+  id,
+  value,
+  description,
+  onChange,
+}: {
+  id: string;
+  value: RecognitionLanguage;
+  description: string;
+  onChange: (language: RecognitionLanguage) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        認識言語
+      </Label>
+      <select
+        id={id}
+        value={value}
+        onChange={(event) => onChange(event.target.value as RecognitionLanguage)}
+        className={SELECT_CLASS_NAME}
+      >
+        <option value="auto">自動判定（Whisperのみ）</option>
+        {LANGUAGE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-[10px] text-muted-foreground">{description}</p>
+    </div>
+  );
+}
+
 function ApiKeyField({
   label,
   description,
@@ -200,31 +727,45 @@ function ApiKeyField({
 
       <div className="flex items-center justify-between gap-3">
         <p className="text-[10px] text-muted-foreground">{description}</p>
-        <Button
-          onClick={onTest}
-          disabled={status === "testing" || !value}
-          variant="ghost"
-          size="sm"
-          className={`h-6 text-[10px] gap-1 border border-input ${
-            status === "success"
-              ? "text-emerald-600 bg-emerald-50 border-emerald-200"
-              : status === "error"
-                ? "text-red-600 bg-red-50 border-red-200"
-                : ""
-          }`}
-        >
-          {status === "testing" ? (
-            <Activity className="h-3 w-3 animate-pulse" />
-          ) : status === "success" ? (
-            <CheckCircle2 className="h-3 w-3" />
-          ) : status === "error" ? (
-            <XCircle className="h-3 w-3" />
-          ) : (
-            <Activity className="h-3 w-3" />
-          )}
-          接続テスト
-        </Button>
+        <TestButton status={status} disabled={!value} onTest={onTest} />
       </div>
     </div>
   );
 }
+
+function TestButton({
+  status,
+  disabled = false,
+  onTest,
+}: {
+  status: TestStatus;
+  disabled?: boolean;
+  onTest: () => void;
+}) {
+  return (
+    <Button
+      onClick={onTest}
+      disabled={status === "testing" || disabled}
+      variant="ghost"
+      size="sm"
+      className={`h-6 text-[10px] gap-1 border border-input ${
+        status === "success"
+          ? "text-emerald-600 bg-emerald-50 border-emerald-200"
+          : status === "error"
+            ? "text-red-600 bg-red-50 border-red-200"
+            : ""
+      }`}
+    >
+      {status === "testing" ? (
+        <Activity className="h-3 w-3 animate-pulse" />
+      ) : status === "success" ? (
+        <CheckCircle2 className="h-3 w-3" />
+      ) : status === "error" ? (
+        <XCircle className="h-3 w-3" />
+      ) : (
+        <Activity className="h-3 w-3" />
+      )}
+      接続テスト
+    </Button>
+  );
+}
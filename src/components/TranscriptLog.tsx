@@ -4,22 +4,60 @@
  */
 "use client";
 
-import { memo, useEffect, useMemo, useRef } from "react";
-import { Mic, Monitor, User, Bot, Trash2 } from "lucide-react";
-import type { LogItem } from "@/hooks/useInterviewStore";
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Mic, Monitor, User, Bot, Trash2, Play, Square, Download, Loader2, Clock, Pencil } from "lucide-react";
+import { getLogPlaybackKey, useArchivePlayer } from "@/hooks/useArchivePlayer";
+import type { LogItem, LogTimeDisplay } from "@/hooks/useInterviewStore";
+import { downloadAudioArchive } from "@/lib/audio-archive";
+import { describeLogRange, formatClockTime, formatElapsed, formatLogTime, getLogOrigin } from "@/lib/log-time";
+import type { InterimTranscript } from "@/lib/partial-transcription";
+import {
+    getSpeakerLabel,
+    isSelfSpeaker,
+    OTHER_SPEAKER,
+    type ParticipantRoster,
+    type SpeakerId,
+} from "@/lib/speakers";
+import { LOW_CONFIDENCE_THRESHOLD } from "@/lib/speech-recognition";
 
 interface TranscriptLogProps {
     /** ログデータ */
     logs: LogItem[];
+    /** 回り込みとして非表示にしたログの件数 */
+    suppressedLogCount?: number;
     /** インテリム（暫定）テキスト */
     interimText: string;
+    /** 相手の暫定の発言（録音中のチャンクの途中経過） */
+    otherInterims?: InterimTranscript[];
+    /** 文字起こし待ちの相手音声チャンク数 */
+    pendingTranscriptions?: number;
+    /** 時刻の表示方法 */
+    timeDisplay: LogTimeDisplay;
+    onTimeDisplayChange: (display: LogTimeDisplay) => void;
+    /** ログの文字を書き換える */
+    onEditLog: (id: string, text: string) => void;
+    /** 音声認識の別の候補を選ぶ */
+    onChooseAlternative: (id: string, alternative: string) => void;
+    /** 参加者名簿（話者名の表示に使う） */
+    roster: ParticipantRoster;
+    /** 話者名をクリックした時（名簿を開く） */
+    onSpeakerClick: (speaker: SpeakerId) => void;
     /** ログクリア関数 */
     onClear: () => void;
 }
 
 function TranscriptLog({
     logs,
+    suppressedLogCount = 0,
     interimText,
+    otherInterims = [],
+    pendingTranscriptions = 0,
+    timeDisplay,
+    onTimeDisplayChange,
+    onEditLog,
+    onChooseAlternative,
+    roster,
+    onSpeakerClick,
     onClear,
 }: TranscriptLogProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
@@ -28,6 +66,31 @@ function TranscriptLog({
         [logs]
     );
     const hiddenLogCount = logs.length - visibleLogs.length;
+    const timeOrigin = useMemo(() => getLogOrigin(logs), [logs]);
+    const { playingKey, play, stop } = useArchivePlayer();
+    const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+    const [choosingId, setChoosingId] = useState<string | null>(null);
+
+    const saveEditing = useCallback(() => {
+        if (!editing) return;
+        const text = editing.text.trim();
+        if (text) {
+            onEditLog(editing.id, text);
+        }
+        setEditing(null);
+    }, [editing, onEditLog]);
+
+    const handleDownloadArchive = useCallback(async () => {
+        try {
+            const count = await downloadAudioArchive();
+            if (count === 0) {
+                alert("保存された録音はありません。");
+            }
+        } catch (error) {
+            console.error("録音のダウンロードに失敗しました:", error);
+            alert("録音のダウンロードに失敗しました。");
+        }
+    }, []);
 
     // 新しいログが追加されたら自動スクロール
     useEffect(() => {
@@ -40,7 +103,7 @@ function TranscriptLog({
             }
         });
         return () => cancelAnimationFrame(frame);
-    }, [logs.length, interimText]);
+    }, [logs.length, interimText, otherInterims, pendingTranscriptions]);
 
     return (
         <div className="flex flex-col h-full min-h-0 bg-neutral-50 dark:bg-zinc-950/50">
@@ -54,6 +117,21 @@ function TranscriptLog({
                     <span className="text-[9px] text-muted-foreground/50 bg-muted px-1.5 py-0.5 rounded-full">
                         {logs.length} 件
                     </span>
+                    <button
+                        onClick={() => onTimeDisplayChange(timeDisplay === "clock" ? "elapsed" : "clock")}
+                        className="flex items-center gap-0.5 p-1 text-[9px] text-muted-foreground hover:text-emerald-600 transition-colors rounded-sm hover:bg-muted"
+                        title={timeDisplay === "clock" ? "経過時間で表示する" : "時刻で表示する"}
+                    >
+                        <Clock className="h-3.5 w-3.5" />
+                        {timeDisplay === "clock" ? "時刻" : "経過"}
+                    </button>
+                    <button
+                        onClick={handleDownloadArchive}
+                        className="p-1 text-muted-foreground hover:text-emerald-600 transition-colors rounded-sm hover:bg-muted"
+                        title="録音をダウンロード"
+                    >
+                        <Download className="h-3.5 w-3.5" />
+                    </button>
                     <button
                         onClick={onClear}
                         className="p-1 text-muted-foreground hover:text-red-500 transition-colors rounded-sm hover:bg-muted"
@@ -80,16 +158,28 @@ function TranscriptLog({
                     </div>
                 ) : (
                     <>
+                    {suppressedLogCount > 0 && (
+                        <div className="rounded-md border bg-muted/60 px-3 py-2 text-center text-[10px] text-muted-foreground">
+                            相手の声がマイクに回り込んだ重複として {suppressedLogCount} 件を非表示にしています（コピーとダウンロードにも含まれません）。設定から表示に切り替えられます。
+                        </div>
+                    )}
                     {hiddenLogCount > 0 && (
                         <div className="rounded-md border bg-muted/60 px-3 py-2 text-center text-[10px] text-muted-foreground">
-                            表示負荷を抑えるため、古いログ {hiddenLogCount} 件を折りたたんでいます。コピーとダウンロードには全件含まれます。
+                            表示負荷を抑えるため、古いログ {hiddenLogCount} 件を折りたたんでいます。折りたたんだログもコピーとダウンロードには含まれます。
                         </div>
                     )}
-                    {visibleLogs.map((log, index) => {
-                        const isSelf = log.speaker === "self";
+                    {visibleLogs.map((log) => {
+                        const isSelf = isSelfSpeaker(log.speaker);
+                        const playbackKey = getLogPlaybackKey(log);
+                        const isPlaying = playbackKey !== null && playbackKey === playingKey;
+                        const isEditing = editing?.id === log.id;
+                        const isLowConfidence =
+                            typeof log.confidence === "number" && log.confidence < LOW_CONFIDENCE_THRESHOLD;
+                        const canChoose = (log.alternatives?.length ?? 0) > 0;
+                        const isChoosing = choosingId === log.id && canChoose;
                         return (
                             <div
-                                key={index}
+                                key={log.id}
                                 className={`flex w-full ${isSelf ? "justify-end" : "justify-start"} animate-in fade-in slide-in-from-bottom-2 duration-300`}
                                 style={{ contentVisibility: "auto", containIntrinsicSize: "0 72px" }}
                             >
@@ -99,9 +189,9 @@ function TranscriptLog({
                                 >
                                     {/* アバターアイコン */}
                                     <div
-                                        className={`h-6 w-6 rounded-full flex items-center justify-center shrink-0 mt-1 shadow-sm ${isSelf
-                                            ? "bg-emerald-700 text-white"
-                                            : "bg-emerald-600 text-white"
+                                        className={`h-6 w-6 rounded-full flex items-center justify-center shrink-0 mt-1 shadow-sm text-white ${isSelf
+                                            ? "bg-emerald-700"
+                                            : getOtherSpeakerColor(log.speaker)
                                             }`}
                                     >
                                         {isSelf ? (
@@ -115,17 +205,121 @@ function TranscriptLog({
                                     <div className="flex flex-col gap-1">
                                         <div className={`flex items-end gap-2 ${isSelf ? "justify-end" : "justify-start"}`}>
                                             <span className="text-[9px] text-muted-foreground">
-                                                {isSelf ? "自分" : "相手"} • {log.time}
+                                                <button
+                                                    onClick={() => onSpeakerClick(log.speaker)}
+                                                    className="hover:text-emerald-600 hover:underline"
+                                                    title="参加者を割り当てる"
+                                                >
+                                                    {getSpeakerLabel(log.speaker, roster)}
+                                                </button>
+                                                {" • "}
+                                                <span title={describeLogRange(log)}>
+                                                    {formatLogTime(log, timeDisplay, timeOrigin)}
+                                                </span>
                                             </span>
+                                            {log.edited && (
+                                                <span className="text-[9px] text-muted-foreground">（編集済み）</span>
+                                            )}
+                                            {log.language && (
+                                                <span
+                                                    className="text-[9px] rounded-sm bg-muted px-1 font-mono uppercase text-muted-foreground"
+                                                    title="認識した言語"
+                                                >
+                                                    {log.language}
+                                                </span>
+                                            )}
+                                            {log.suspectedBleed && (
+                                                <span
+                                                    className="text-[9px] rounded-sm bg-amber-100 px-1 text-amber-700"
+                                                    title="相手の声がマイクに回り込んだ重複の可能性があります"
+                                                >
+                                                    回り込み?
+                                                </span>
+                                            )}
+                                            {playbackKey && (
+                                                <button
+                                                    onClick={() => (isPlaying ? stop() : void play(log))}
+                                                    className="p-0.5 text-muted-foreground hover:text-emerald-600 transition-colors rounded-sm"
+                                                    title={isPlaying ? "再生を停止" : "この発言の録音を再生"}
+                                                >
+                                                    {isPlaying ? (
+                                                        <Square className="h-2.5 w-2.5" />
+                                                    ) : (
+                                                        <Play className="h-2.5 w-2.5" />
+                                                    )}
+                                                </button>
+                                            )}
+                                            {!isEditing && (
+                                                <button
+                                                    onClick={() => setEditing({ id: log.id, text: log.text })}
+                                                    className="p-0.5 text-muted-foreground hover:text-emerald-600 transition-colors rounded-sm"
+                                                    title="この発言を修正"
+                                                >
+                                                    <Pencil className="h-2.5 w-2.5" />
+                                                </button>
+                                            )}
                                         </div>
-                                        <div
-                                            className={`px-3 py-2 rounded-2xl text-xs leading-relaxed shadow-sm break-words whitespace-pre-wrap ${isSelf
-                                                ? "bg-emerald-700 text-white rounded-tr-none"
-                                                : "bg-white dark:bg-zinc-800 text-foreground border rounded-tl-none"
-                                                }`}
-                                        >
-                                            {log.text}
-                                        </div>
+                                        {isEditing ? (
+                                            <div className="flex flex-col gap-1">
+                                                <textarea
+                                                    value={editing.text}
+                                                    onChange={(event) => setEditing({ id: log.id, text: event.target.value })}
+                                                    onKeyDown={(event) => {
+                                                        if (event.key === "Enter" && !event.shiftKey && !event.nativeEvent.isComposing) {
+                                                            event.preventDefault();
+                                                            saveEditing();
+                                                        } else if (event.key === "Escape") {
+                                                            setEditing(null);
+                                                        }
+                                                    }}
+                                                    autoFocus
+                                                    rows={3}
+                                                    className="w-72 max-w-full rounded-md border bg-background px-2 py-1 text-xs outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/50"
+                                                />
+                                                <div className={`flex gap-2 text-[10px] ${isSelf ? "justify-end" : "justify-start"}`}>
+                                                    <button onClick={() => setEditing(null)} className="text-muted-foreground hover:text-foreground">
+                                                        キャンセル
+                                                    </button>
+                                                    <button onClick={saveEditing} className="font-bold text-emerald-700 hover:text-emerald-600">
+                                                        保存（Enter）
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <>
+                                                <div
+                                                    onClick={canChoose ? () => setChoosingId(isChoosing ? null : log.id) : undefined}
+                                                    title={
+                                                        typeof log.confidence === "number"
+                                                            ? `信頼度 ${Math.round(log.confidence * 100)}%${canChoose ? "（クリックで別の候補を選択）" : ""}`
+                                                            : undefined
+                                                    }
+                                                    className={`px-3 py-2 rounded-2xl text-xs leading-relaxed shadow-sm break-words whitespace-pre-wrap ${log.suspectedBleed ? "opacity-50 " : ""}${isLowConfidence ? "underline decoration-wavy decoration-amber-400 underline-offset-4 " : ""}${canChoose ? "cursor-pointer " : ""}${isSelf
+                                                        ? "bg-emerald-700 text-white rounded-tr-none"
+                                                        : "bg-white dark:bg-zinc-800 text-foreground border rounded-tl-none"
+                                                        }`}
+                                                >
+                                                    {log.text}
+                                                </div>
+                                                {isChoosing && (
+                                                    <div className="flex flex-col gap-1 rounded-md border bg-background p-1.5 shadow-sm">
+                                                        <span className="px-1 text-[9px] text-muted-foreground">別の候補を選ぶ</span>
+                                                        {log.alternatives?.map((alternative) => (
+                                                            <button
+                                                                key={alternative}
+                                                                onClick={() => {
+                                                                    onChooseAlternative(log.id, alternative);
+                                                                    setChoosingId(null);
+                                                                }}
+                                                                className="rounded-sm px-2 py-1 text-left text-xs hover:bg-muted"
+                                                            >
+                                                                {alternative}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -134,6 +328,42 @@ function TranscriptLog({
                     </>
                 )}
 
+                {/* 相手の暫定の発言 - チャンクの文字起こしが確定するとログに置き換わる */}
+                {otherInterims.map((interim) => (
+                    <div key={interim.timestamp} className="flex w-full justify-start">
+                        <div className="flex max-w-[85%] md:max-w-[75%] gap-2 flex-row">
+                            <div className="h-6 w-6 rounded-full bg-emerald-600/50 flex items-center justify-center shrink-0 mt-1">
+                                <Monitor className="h-3.5 w-3.5 text-white" />
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <span className="text-[9px] text-muted-foreground">
+                                    相手（発言中） • {timeDisplay === "elapsed" && timeOrigin !== null
+                                        ? formatElapsed(interim.timestamp - timeOrigin)
+                                        : formatClockTime(interim.timestamp)}
+                                </span>
+                                <div className="bg-white/60 dark:bg-zinc-800/60 text-muted-foreground px-3 py-2 rounded-2xl rounded-tl-none text-xs border border-dashed">
+                                    {interim.text}...
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+
+                {/* 文字起こし待ち表示 - 相手側の下に表示 */}
+                {pendingTranscriptions > 0 && (
+                    <div className="flex w-full justify-start">
+                        <div className="flex max-w-[85%] gap-2 flex-row">
+                            <div className="h-6 w-6 rounded-full bg-emerald-600/50 flex items-center justify-center shrink-0 mt-1">
+                                <Monitor className="h-3.5 w-3.5 text-white" />
+                            </div>
+                            <div className="flex items-center gap-1.5 bg-white/60 dark:bg-zinc-800/60 text-muted-foreground px-3 py-2 rounded-2xl rounded-tl-none text-xs border border-dashed">
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                                相手の音声を文字起こし中（{pendingTranscriptions} 件）
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* インテリム（入力中）表示 - 常に自分側の下に表示 */}
                 {interimText && (
                     <div className="flex w-full justify-end animate-pulse">
@@ -154,4 +384,17 @@ function TranscriptLog({
 
 const MAX_VISIBLE_LOGS = 200;
 
+/** 話者分離した相手ごとのアイコンの色 */
+const OTHER_SPEAKER_COLORS = ["bg-sky-600", "bg-violet-600", "bg-amber-600", "bg-rose-600", "bg-teal-600", "bg-indigo-600"];
+
+function getOtherSpeakerColor(speaker: SpeakerId): string {
+    if (speaker === OTHER_SPEAKER) return "bg-emerald-600";
+
+    let hash = 0;
+    for (const char of speaker) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return OTHER_SPEAKER_COLORS[hash % OTHER_SPEAKER_COLORS.length];
+}
+
 export default memo(TranscriptLog);
@@ -0,0 +1,130 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { Gauge } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  formatAudioMinutes,
+  formatTokens,
+  getBudgetStatuses,
+  getEmptyUsageLedger,
+  getMonthUsage,
+  getUsageLedger,
+  setUsageBudget,
+  subscribeUsageLedger,
+  type UsageBudget,
+  type UsageTotals,
+} from "@/lib/usage-ledger";
+
+const BUDGET_FIELDS: { key: keyof UsageBudget; label: string; unit: string }[] = [
+  { key: "sessionGroqMinutes", label: "Groq（この面接）", unit: "分" },
+  { key: "monthlyGroqMinutes", label: "Groq（今月）", unit: "分" },
+  { key: "sessionGeminiTokens", label: "Gemini（この面接）", unit: "トークン" },
+  { key: "monthlyGeminiTokens", label: "Gemini（今月）", unit: "トークン" },
+  { key: "sessionOpenAiTokens", label: "OpenAI互換API（この面接）", unit: "トークン" },
+  { key: "monthlyOpenAiTokens", label: "OpenAI互換API（今月）", unit: "トークン" },
+];
+
+export default function UsageBudgetEditor() {
+  const ledger = useSyncExternalStore(subscribeUsageLedger, getUsageLedger, getEmptyUsageLedger);
+  const statuses = getBudgetStatuses(ledger);
+
+  return (
+    <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+      <Label className="text-sm font-bold flex items-center gap-1.5">
+        <Gauge className="h-3.5 w-3.5" />
+        使用量と上限
+      </Label>
+
+      <table className="w-full text-[10px]">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal" />
+            <th className="text-right font-normal">この面接</th>
+            <th className="text-right font-normal">今月</th>
+          </tr>
+        </thead>
+        <tbody>
+          <UsageRow
+            label="Groqの音声"
+            session={ledger.session}
+            month={getMonthUsage(ledger)}
+            format={(totals) => `${formatAudioMinutes(totals.groqAudioSeconds)}（${totals.groqRequests}回）`}
+          />
+          <UsageRow
+            label="うち途中経過"
+            session={ledger.session}
+            month={getMonthUsage(ledger)}
+            format={(totals) =>
+              `${formatAudioMinutes(totals.groqPartialAudioSeconds)}（${totals.groqPartialRequests}回）`
+            }
+          />
+          <UsageRow
+            label="Geminiのトークン"
+            session={ledger.session}
+            month={getMonthUsage(ledger)}
+            format={(totals) => `${formatTokens(totals.geminiTotalTokens)}（${totals.geminiRequests}回）`}
+          />
+          <UsageRow
+            label="OpenAI互換APIのトークン"
+            session={ledger.session}
+            month={getMonthUsage(ledger)}
+            format={(totals) => `${formatTokens(totals.openAiTotalTokens)}（${totals.openAiRequests}回）`}
+          />
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-2 gap-2">
+        {BUDGET_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`usage-budget-${field.key}`} className="text-xs">
+              {field.label}の上限（{field.unit}）
+            </Label>
+            <Input
+              id={`usage-budget-${field.key}`}
+              type="number"
+              min={0}
+              value={ledger.budget[field.key] || ""}
+              onChange={(event) => setUsageBudget({ [field.key]: Number(event.target.value) })}
+              placeholder="上限なし"
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      {statuses.map((status) => (
+        <p
+          key={`${status.service}-${status.scope}`}
+          className={`text-[10px] ${status.level === "blocked" ? "text-red-500" : "text-amber-600"}`}
+        >
+          {status.message}
+        </p>
+      ))}
+      <p className="text-[10px] text-muted-foreground">
+        上限の8割で警告し、上限に達するとそのサービスへの送信を止めます。相手側の途中経過は、Groqが8割を超えた時とレート制限（429）を受けた時に止めます。止めている間の相手側音声は文字起こし待ちに残り、上限を変えてから再試行できます。「この面接」の使用量はリセットで0に戻ります。OpenAI互換APIは応答がusageを返した分だけ数えます。Ollamaはローカルで動くため記録しません。
+      </p>
+    </div>
+  );
+}
+
+function UsageRow({
+  label,
+  session,
+  month,
+  format,
+}: {
+  label: string;
+  session: UsageTotals;
+  month: UsageTotals;
+  format: (totals: UsageTotals) => string;
+}) {
+  return (
+    <tr>
+      <td className="py-0.5">{label}</td>
+      <td className="py-0.5 text-right font-mono">{format(session)}</td>
+      <td className="py-0.5 text-right font-mono">{format(month)}</td>
+    </tr>
+  );
+}
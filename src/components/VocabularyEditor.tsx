@@ -0,0 +1,139 @@
+"use client";
+
+import { useMemo, useRef, type ChangeEvent } from "react";
+import { BookA, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { CandidateBasicInfo } from "@/hooks/useInterviewStore";
+import {
+  buildWhisperPrompt,
+  downloadVocabulary,
+  getCandidateTerms,
+  mergeVocabularyImport,
+  parseReplacementRules,
+  type VocabularySettings,
+} from "@/lib/vocabulary";
+
+interface VocabularyEditorProps {
+  vocabulary: VocabularySettings;
+  candidateInfo?: CandidateBasicInfo;
+  onChange: (vocabulary: Partial<VocabularySettings>) => void;
+}
+
+export default function VocabularyEditor({ vocabulary, candidateInfo, onChange }: VocabularyEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const candidateTerms = getCandidateTerms(candidateInfo);
+  const ruleErrors = useMemo(
+    () => parseReplacementRules(vocabulary.replacements).errors,
+    [vocabulary.replacements]
+  );
+  const prompt = useMemo(
+    () => buildWhisperPrompt(vocabulary, candidateInfo),
+    [vocabulary, candidateInfo]
+  );
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      onChange(mergeVocabularyImport(vocabulary, await file.text()));
+    } catch (error) {
+      console.error("用語辞書の読み込みに失敗しました:", error);
+      alert("用語辞書を読み込めませんでした。テキストファイルを選択してください。");
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-muted/30 rounded-lg border">
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm font-bold flex items-center gap-1.5">
+          <BookA className="h-3.5 w-3.5" />
+          用語辞書
+        </Label>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs gap-1"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-3 w-3" />
+            読み込み
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs gap-1"
+            onClick={() => downloadVocabulary(vocabulary)}
+          >
+            <Download className="h-3 w-3" />
+            書き出し
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,text/plain"
+            className="hidden"
+            onChange={(event) => void handleImport(event)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="vocabulary-terms" className="text-xs">
+          用語（1行に1語）
+        </Label>
+        <Textarea
+          id="vocabulary-terms"
+          value={vocabulary.terms}
+          onChange={(event) => onChange({ terms: event.target.value })}
+          placeholder={"議事録くん\n社内の製品名"}
+          className="min-h-20 text-xs font-mono"
+        />
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={vocabulary.useCandidateInfo}
+            onChange={(event) => onChange({ useCandidateInfo: event.target.checked })}
+            className="accent-emerald-600"
+          />
+          候補者の氏名・学校・会社を用語に加える
+          {vocabulary.useCandidateInfo && candidateTerms.length > 0 && (
+            <span className="truncate text-muted-foreground">（{candidateTerms.join("、")}）</span>
+          )}
+        </label>
+        <p className="text-[10px] text-muted-foreground">
+          Whisperで文字起こしする時に、認識されやすいよう用語を伝えます。先頭から約200文字まで使います。
+          {prompt ? `現在 ${prompt.split("、").length}語を送っています。` : ""}
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="vocabulary-replacements" className="text-xs">
+          置換ルール（1行に1件）
+        </Label>
+        <Textarea
+          id="vocabulary-replacements"
+          value={vocabulary.replacements}
+          onChange={(event) => onChange({ replacements: event.target.value })}
+          placeholder={"ぎじろくくん => 議事録くん\n/ぐ[ーう]ぐる/ => Google"}
+          className="min-h-20 text-xs font-mono"
+          aria-invalid={ruleErrors.length > 0}
+        />
+        {ruleErrors.map((error) => (
+          <p key={error.line} className="text-[10px] text-destructive">
+            {error.line}行目: {error.message}
+          </p>
+        ))}
+        <p className="text-[10px] text-muted-foreground">
+          「誤 =&gt; 正」の形で書きます。/ で囲むと正規表現として扱います。Web Speech・Whisperのどちらの文字起こしにも、ログに追加する前に上から順に適用します。
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LogItem } from "@/hooks/useInterviewStore";
+import {
+  findArchivePosition,
+  loadArchiveSegmentBlob,
+  sliceArchiveSegment,
+  type ArchiveClip,
+  type ArchiveSegment,
+} from "@/lib/audio-archive";
+
+/** 発話の頭切れを防ぐため、再生位置を少し手前にずらす */
+const PLAYBACK_PREROLL_MS = 1000;
+/** 発話の終わりの後も少し続けて再生する */
+const PLAYBACK_TAIL_MS = 2000;
+/** 終了時刻のない発言を再生する長さ */
+const PLAYBACK_FALLBACK_MS = 15_000;
+
+export function getLogPlaybackKey(log: LogItem): string | null {
+  return typeof log.timestamp === "number" ? log.id : null;
+}
+
+/**
+ * 会話ログから録音アーカイブを再生するフック
+ * - 同時に再生するのは1件だけで、セグメントの Blob は直近1件をキャッシュする
+ * - ライブ録音（WebM）はシークできないため、発言の区間を切り出してデコードし、その位置から再生する
+ * - 取り込んだファイルは audio 要素でそのままシークして再生する
+ */
+export function useArchivePlayer() {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const clipSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const loadedSegment = useRef<{ id: string; blob: Blob; url: string | null } | null>(null);
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+
+  const stopPlayback = useCallback(() => {
+    audioRef.current?.pause();
+    const source = clipSourceRef.current;
+    if (source) {
+      clipSourceRef.current = null;
+      source.onended = null;
+      source.stop();
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    stopPlayback();
+    setPlayingKey(null);
+  }, [stopPlayback]);
+
+  const loadSegment = useCallback(async (segment: ArchiveSegment) => {
+    if (loadedSegment.current?.id !== segment.id) {
+      const blob = await loadArchiveSegmentBlob(segment);
+      if (loadedSegment.current?.url) {
+        URL.revokeObjectURL(loadedSegment.current.url);
+      }
+      loadedSegment.current = { id: segment.id, blob, url: null };
+    }
+    return loadedSegment.current;
+  }, []);
+
+  /** 切り出した区間をデコードして再生する */
+  const playClip = useCallback(async (clip: ArchiveClip, durationMs: number, onEnded: () => void) => {
+    audioContextRef.current ??= new AudioContext();
+    const context = audioContextRef.current;
+    if (context.state === "suspended") {
+      await context.resume();
+    }
+
+    const buffer = await context.decodeAudioData(await clip.blob.arrayBuffer());
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = () => {
+      if (clipSourceRef.current !== source) return;
+      clipSourceRef.current = null;
+      onEnded();
+    };
+    clipSourceRef.current = source;
+    source.start(0, Math.min(clip.offsetMs / 1000, buffer.duration), durationMs / 1000);
+  }, []);
+
+  /** audio 要素でシークして再生する（シークできる形式のファイル用） */
+  const playFile = useCallback(async (loaded: { blob: Blob; url: string | null }, fromMs: number) => {
+    if (!audioRef.current) {
+      audioRef.current = new Audio();
+      audioRef.current.onended = () => setPlayingKey(null);
+    }
+    const audio = audioRef.current;
+
+    if (!loaded.url) {
+      loaded.url = URL.createObjectURL(loaded.blob);
+      audio.src = loaded.url;
+      await new Promise<void>((resolve) => {
+        audio.onloadedmetadata = () => resolve();
+        audio.onerror = () => resolve();
+      });
+    }
+
+    audio.currentTime = fromMs / 1000;
+    await audio.play();
+  }, []);
+
+  const play = useCallback(async (log: LogItem) => {
+    const key = getLogPlaybackKey(log);
+    if (!key || typeof log.timestamp !== "number") return;
+
+    const position = await findArchivePosition(log.channel, log.timestamp);
+    if (!position) {
+      alert("この発言の録音は見つかりませんでした。");
+      return;
+    }
+
+    stopPlayback();
+    try {
+      const loaded = await loadSegment(position.segment);
+      const fromMs = Math.max(0, position.offsetMs - PLAYBACK_PREROLL_MS);
+      const endedAt = log.endedAt ?? log.timestamp + PLAYBACK_FALLBACK_MS;
+      const toMs = endedAt - position.segment.startedAt + PLAYBACK_TAIL_MS;
+
+      const clip = await sliceArchiveSegment(position.segment, loaded.blob, fromMs, toMs);
+      if (clip) {
+        await playClip(clip, toMs - fromMs, () => setPlayingKey(null));
+      } else {
+        await playFile(loaded, fromMs);
+      }
+      setPlayingKey(key);
+    } catch (error) {
+      console.error("録音の再生に失敗しました:", error);
+      setPlayingKey(null);
+    }
+  }, [loadSegment, playClip, playFile, stopPlayback]);
+
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+      clipSourceRef.current?.stop();
+      void audioContextRef.current?.close();
+      if (loadedSegment.current?.url) {
+        URL.revokeObjectURL(loadedSegment.current.url);
+      }
+    };
+  }, []);
+
+  return { playingKey, play, stop };
+}
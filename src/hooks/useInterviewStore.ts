@@ -1,13 +1,93 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import { clearAudioArchive } from "@/lib/audio-archive";
+import {
+  DEFAULT_BLEED_HANDLING,
+  markSuspectedBleed,
+  type BleedHandling,
+} from "@/lib/bleed-detection";
+import type { CaptureChannel } from "@/lib/capture-health";
+import {
+  clampSystemGain,
+  DEFAULT_SYSTEM_GAIN_SETTING,
+  type SystemGainMode,
+} from "@/lib/gain-control";
+import { DEFAULT_HALLUCINATION_PHRASES } from "@/lib/hallucination-filter";
+import {
+  addCandidateToRoster,
+  createParticipantId,
+  EMPTY_ROSTER,
+  isSelfSpeaker,
+  normalizeRoster,
+  OTHER_SPEAKER,
+  SELF_SPEAKER,
+  type Participant,
+  type ParticipantRoster,
+  type SpeakerId,
+} from "@/lib/speakers";
+import {
+  DEFAULT_LLM_PROVIDER_SETTINGS,
+  normalizeLlmProviderSettings,
+  type LlmProviderSettings,
+} from "@/lib/llm-provider";
+import {
+  DEFAULT_RECOGNITION_LANGUAGE,
+  normalizeRecognitionLanguage,
+  type RecognitionLanguage,
+} from "@/lib/recognition-language";
+import {
+  DEFAULT_MIC_TRANSCRIPTION_ENGINE,
+  type MicTranscriptionEngine,
+} from "@/lib/speech-recognition";
+import { clearTranscriptionBacklog } from "@/lib/transcription-backlog";
+import {
+  DEFAULT_TRANSCRIPTION_PROVIDER_SETTINGS,
+  normalizeTranscriptionProviderSettings,
+  type TranscriptionProviderSettings,
+} from "@/lib/transcription-provider";
+import {
+  DEFAULT_VOCABULARY,
+  normalizeVocabulary,
+  type VocabularySettings,
+} from "@/lib/vocabulary";
 
 export interface LogItem {
+  /** ログごとに固定のID */
+  id: string;
+  /** 追加時に作った「HH:MM」の表示用時刻（旧データとの互換用） */
   time: string;
   text: string;
-  speaker: "self" | "other";
+  /** 話者ID（self: 自分 / other: 相手 / 相手A・相手B…: 話者分離した相手） */
+  speaker: SpeakerId;
+  /** 録音したチャンネル（mic: CH1 / system: CH2・録音ファイル） */
+  channel: CaptureChannel;
+  /** 発話開始時刻（epoch ms）。録音アーカイブの再生位置に使う。旧データには存在しない */
+  timestamp?: number;
+  /** 発話終了時刻（epoch ms）。旧データや区間情報のない文字起こしには存在しない */
+  endedAt?: number;
+  /** 手で書き換えたか */
+  edited?: boolean;
+  /** マイクとシステム音声の包絡線の相関（自分側のみ、回り込み判定用） */
+  echoScore?: number;
+  /** 相手の声がマイクに回り込んだ重複と判定されたか */
+  suspectedBleed?: boolean;
+  /** 近い時刻の相手のログと文字列も重なり、回り込みと確認できたか（非表示にするのはこの場合だけ） */
+  bleedConfirmed?: boolean;
+  /** 認識した言語（ISO 639-1）。旧データには存在しない */
+  language?: string;
+  /** Web Speech API の信頼度（0〜1） */
+  confidence?: number;
+  /** Web Speech API が返した別の候補（選び直しに使う） */
+  alternatives?: string[];
 }
 
+/** 文字起こし結果に付随してログに残す情報 */
+export type LogDetails = Pick<LogItem, "echoScore" | "language" | "endedAt" | "confidence" | "alternatives">;
+
+/** 会話ログの時刻の表示方法（clock: 時刻 / elapsed: 最初の発言からの経過時間） */
+export type LogTimeDisplay = "clock" | "elapsed";
+
 export interface CandidateBasicInfo {
   name: string;
   kana: string;
@@ -26,6 +106,8 @@ export interface InterviewAnalysis {
   resumeSummary: string;
   workHistorySummary: string;
   suggestedQuestions: string[];
+  /** 作成が途中で止まり（キャンセル・通信断など）、一部の項目だけの結果 */
+  incomplete?: boolean;
 }
 
 export interface DocumentPayload {
@@ -41,6 +123,36 @@ export interface InterviewState {
   groqApiKey: string;
   geminiApiKey: string;
   geminiModel: string;
+  /** 書類の解析など AI に使うサービス（Gemini / OpenAI互換API / Ollama） */
+  llmProvider: LlmProviderSettings;
+  /** 文字起こしに使うサービス（Groq / OpenAI互換サーバー / ブラウザ内Whisper / モック） */
+  transcriptionProvider: TranscriptionProviderSettings;
+  /** CH1で使うマイクのデバイスID（空文字は既定のデバイス） */
+  micDeviceId: string;
+  /** CH1の文字起こし方法（Web Speech API / Whisper） */
+  micTranscriptionEngine: MicTranscriptionEngine;
+  /** CH1の認識言語 */
+  micLanguage: RecognitionLanguage;
+  /** CH2の認識言語（auto は Whisper の自動判定） */
+  systemLanguage: RecognitionLanguage;
+  /** 用語辞書（Whisper の prompt と置換ルール） */
+  vocabulary: VocabularySettings;
+  /** Whisper の結果から区間ごとに除く定型句（1行に1件） */
+  hallucinationPhrases: string;
+  /** 会話ログの時刻の表示方法 */
+  logTimeDisplay: LogTimeDisplay;
+  /** 相手音声（CH2）を話者ごとに分けるか */
+  systemDiarization: boolean;
+  /** 相手音声（CH2）の途中経過を表示するか */
+  systemInterim: boolean;
+  /** 参加者名簿と、話者IDごとの割り当て */
+  roster: ParticipantRoster;
+  /** 相手音声（CH2）の増幅方法 */
+  systemGainMode: SystemGainMode;
+  /** 手動増幅時の倍率 */
+  systemManualGain: number;
+  /** 回り込みと判定したログの扱い */
+  bleedHandling: BleedHandling;
   resumeText: string;
   resumeFileName: string;
   resumeData?: string;
@@ -77,6 +189,21 @@ function getDefaultState(): InterviewState {
     groqApiKey: "",
     geminiApiKey: "",
     geminiModel: DEFAULT_GEMINI_MODEL,
+    llmProvider: DEFAULT_LLM_PROVIDER_SETTINGS,
+    transcriptionProvider: DEFAULT_TRANSCRIPTION_PROVIDER_SETTINGS,
+    micDeviceId: "",
+    micTranscriptionEngine: DEFAULT_MIC_TRANSCRIPTION_ENGINE,
+    micLanguage: DEFAULT_RECOGNITION_LANGUAGE,
+    systemLanguage: DEFAULT_RECOGNITION_LANGUAGE,
+    vocabulary: DEFAULT_VOCABULARY,
+    hallucinationPhrases: DEFAULT_HALLUCINATION_PHRASES,
+    logTimeDisplay: "clock",
+    systemDiarization: false,
+    systemInterim: false,
+    roster: EMPTY_ROSTER,
+    systemGainMode: DEFAULT_SYSTEM_GAIN_SETTING.mode,
+    systemManualGain: DEFAULT_SYSTEM_GAIN_SETTING.manualGain,
+    bleedHandling: DEFAULT_BLEED_HANDLING,
     resumeText: "",
     resumeFileName: "",
     resumeData: "",
@@ -89,16 +216,40 @@ function getDefaultState(): InterviewState {
   };
 }
 
-type LegacySavedState = Partial<InterviewState> & {
+type LegacySavedState = Omit<Partial<InterviewState>, "logs"> & {
+  /** ID・チャンネルのない旧形式のログを含む */
+  logs?: Partial<LogItem>[];
   apiKey?: string;
   esText?: string;
   esData?: string;
+  /** 名簿より前の、話者IDごとの表示名 */
+  speakerNames?: Record<string, string>;
 };
 
+function createLogId(timestamp: number): string {
+  return `${timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** 旧データのログに ID とチャンネルを補う */
+function normalizeLogItem(log: Partial<LogItem>): LogItem {
+  const speaker = typeof log.speaker === "string" && log.speaker ? log.speaker : OTHER_SPEAKER;
+  const defaultChannel: CaptureChannel = isSelfSpeaker(speaker) ? "mic" : "system";
+  return {
+    ...log,
+    id: typeof log.id === "string" && log.id ? log.id : createLogId(log.timestamp ?? 0),
+    time: typeof log.time === "string" ? log.time : "",
+    text: typeof log.text === "string" ? log.text : "",
+    speaker,
+    channel: log.channel === "mic" || log.channel === "system" ? log.channel : defaultChannel,
+  };
+}
+
 function normalizeSavedState(saved: LegacySavedState): InterviewState {
   return {
     ...getDefaultState(),
-    logs: Array.isArray(saved.logs) ? saved.logs : [],
+    logs: Array.isArray(saved.logs)
+      ? saved.logs.filter((log) => log && typeof log === "object").map(normalizeLogItem)
+      : [],
     freeMemo: typeof saved.freeMemo === "string" ? saved.freeMemo : "",
     groqApiKey: typeof saved.groqApiKey === "string" ? saved.groqApiKey : "",
     geminiApiKey:
@@ -108,6 +259,34 @@ function normalizeSavedState(saved: LegacySavedState): InterviewState {
           ? saved.apiKey
           : "",
     geminiModel: normalizeGeminiModel(saved.geminiModel),
+    llmProvider: normalizeLlmProviderSettings(saved.llmProvider),
+    transcriptionProvider: normalizeTranscriptionProviderSettings(saved.transcriptionProvider),
+    micDeviceId: typeof saved.micDeviceId === "string" ? saved.micDeviceId : "",
+    micTranscriptionEngine:
+      saved.micTranscriptionEngine === "whisper" ? "whisper" : DEFAULT_MIC_TRANSCRIPTION_ENGINE,
+    micLanguage: normalizeRecognitionLanguage(saved.micLanguage),
+    systemLanguage: normalizeRecognitionLanguage(saved.systemLanguage),
+    vocabulary: normalizeVocabulary(saved.vocabulary),
+    hallucinationPhrases:
+      typeof saved.hallucinationPhrases === "string"
+        ? saved.hallucinationPhrases
+        : DEFAULT_HALLUCINATION_PHRASES,
+    logTimeDisplay: saved.logTimeDisplay === "elapsed" ? "elapsed" : "clock",
+    systemDiarization: saved.systemDiarization === true,
+    systemInterim: saved.systemInterim === true,
+    roster:
+      saved.roster === undefined && saved.speakerNames === undefined
+        ? addCandidateToRoster(EMPTY_ROSTER, saved.interviewAnalysis?.basicInfo)
+        : normalizeRoster(saved.roster, saved.speakerNames),
+    systemGainMode: saved.systemGainMode === "manual" ? "manual" : "auto",
+    systemManualGain:
+      typeof saved.systemManualGain === "number"
+        ? clampSystemGain(saved.systemManualGain)
+        : DEFAULT_SYSTEM_GAIN_SETTING.manualGain,
+    bleedHandling:
+      saved.bleedHandling === "suppress" || saved.bleedHandling === "flag" || saved.bleedHandling === "off"
+        ? saved.bleedHandling
+        : DEFAULT_BLEED_HANDLING,
     resumeText: typeof saved.resumeText === "string" ? saved.resumeText : "",
     resumeFileName: typeof saved.resumeFileName === "string" ? saved.resumeFileName : "",
     workHistoryText:
@@ -122,6 +301,20 @@ function normalizeSavedState(saved: LegacySavedState): InterviewState {
   };
 }
 
+/**
+ * 発話開始時刻の順になる位置を返す
+ * 再試行で遅れて届いた文字起こしも、録音した時刻の位置に入る
+ */
+function findInsertIndex(logs: LogItem[], timestamp: number): number {
+  let index = logs.length;
+  while (index > 0) {
+    const previous = logs[index - 1].timestamp;
+    if (typeof previous !== "number" || previous <= timestamp) break;
+    index -= 1;
+  }
+  return index;
+}
+
 function toPersistedState(state: InterviewState): InterviewState {
   return {
     ...state,
@@ -204,21 +397,142 @@ export function useInterviewStore() {
     };
   }, [state]);
 
-  const addLog = useCallback((text: string, speaker: "self" | "other" = "self") => {
-    const time = new Date().toLocaleTimeString("ja-JP", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const addLog = useCallback(
+    (
+      text: string,
+      speaker: SpeakerId = SELF_SPEAKER,
+      timestamp: number = Date.now(),
+      details: LogDetails = {}
+    ) => {
+      const time = new Date(timestamp).toLocaleTimeString("ja-JP", {
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      const item: LogItem = {
+        id: createLogId(timestamp),
+        time,
+        text,
+        speaker,
+        channel: isSelfSpeaker(speaker) ? "mic" : "system",
+        timestamp,
+      };
+      if (typeof details.endedAt === "number" && details.endedAt >= timestamp) {
+        item.endedAt = details.endedAt;
+      }
+      if (typeof details.echoScore === "number") {
+        item.echoScore = details.echoScore;
+      }
+      if (details.language) {
+        item.language = details.language;
+      }
+      if (typeof details.confidence === "number") {
+        item.confidence = details.confidence;
+      }
+      if (details.alternatives && details.alternatives.length > 0) {
+        item.alternatives = details.alternatives;
+      }
+
+      setState((prev) => {
+        const index = findInsertIndex(prev.logs, timestamp);
+        const logs = [...prev.logs.slice(0, index), item, ...prev.logs.slice(index)];
+        return {
+          ...prev,
+          logs: prev.bleedHandling === "off" ? logs : markSuspectedBleed(logs, index),
+        };
+      });
+    },
+    []
+  );
+
+  const updateLogText = useCallback((id: string, text: string) => {
+    setState((prev) => ({
+      ...prev,
+      logs: prev.logs.map((log) =>
+        log.id === id && log.text !== text ? { ...log, text, edited: true } : log
+      ),
+    }));
+  }, []);
+
+  /** 別の候補を選ぶ（元の文は候補に戻し、いつでも選び直せるようにする） */
+  const chooseLogAlternative = useCallback((id: string, alternative: string) => {
+    setState((prev) => ({
+      ...prev,
+      logs: prev.logs.map((log) => {
+        if (log.id !== id || log.text === alternative) return log;
+        return {
+          ...log,
+          text: alternative,
+          alternatives: [log.text, ...(log.alternatives ?? []).filter((text) => text !== alternative)],
+          edited: true,
+        };
+      }),
+    }));
+  }, []);
 
+  /** 名簿に参加者を加える（speaker を渡すと、その話者に割り当てる） */
+  const addParticipant = useCallback(
+    (participant: Partial<Omit<Participant, "id">> = {}, speaker?: SpeakerId) => {
+      const id = createParticipantId();
+      setState((prev) => ({
+        ...prev,
+        roster: {
+          participants: [
+            ...prev.roster.participants,
+            { name: "", role: "", affiliation: "", ...participant, id },
+          ],
+          assignments: speaker ? { ...prev.roster.assignments, [speaker]: id } : prev.roster.assignments,
+        },
+      }));
+    },
+    []
+  );
+
+  const updateParticipant = useCallback(
+    (id: string, changes: Partial<Omit<Participant, "id">>) => {
+      setState((prev) => ({
+        ...prev,
+        roster: {
+          ...prev.roster,
+          participants: prev.roster.participants.map((participant) =>
+            participant.id === id ? { ...participant, ...changes } : participant
+          ),
+        },
+      }));
+    },
+    []
+  );
+
+  /** 参加者を名簿から外す（割り当てていた話者は既定の名前に戻る） */
+  const removeParticipant = useCallback((id: string) => {
     setState((prev) => ({
       ...prev,
-      logs: [...prev.logs, { time, text, speaker }],
+      roster: {
+        participants: prev.roster.participants.filter((participant) => participant.id !== id),
+        assignments: Object.fromEntries(
+          Object.entries(prev.roster.assignments).filter(([, participantId]) => participantId !== id)
+        ),
+      },
     }));
   }, []);
 
+  /** 話者を参加者に割り当てる（null で割り当てを外す） */
+  const assignSpeaker = useCallback((speaker: SpeakerId, participantId: string | null) => {
+    setState((prev) => {
+      const assignments = { ...prev.roster.assignments };
+      if (participantId) {
+        assignments[speaker] = participantId;
+      } else {
+        delete assignments[speaker];
+      }
+      return { ...prev, roster: { ...prev.roster, assignments } };
+    });
+  }, []);
+
   const clearLogs = useCallback(() => {
-    if (confirm("会話ログをクリアしますか？メモと設定は残ります。")) {
+    if (confirm("会話ログをクリアしますか？メモと設定は残ります。録音データと保留中の文字起こしも削除されます。")) {
       setState((prev) => ({ ...prev, logs: [] }));
+      void clearAudioArchive();
+      void clearTranscriptionBacklog();
     }
   }, []);
 
@@ -238,6 +552,74 @@ export function useInterviewStore() {
     setState((prev) => ({ ...prev, geminiModel: normalizeGeminiModel(model) }));
   }, []);
 
+  const setLlmProvider = useCallback((settings: Partial<LlmProviderSettings>) => {
+    setState((prev) => ({
+      ...prev,
+      llmProvider: normalizeLlmProviderSettings({ ...prev.llmProvider, ...settings }),
+    }));
+  }, []);
+
+  const setTranscriptionProvider = useCallback(
+    (settings: Partial<TranscriptionProviderSettings>) => {
+      setState((prev) => ({
+        ...prev,
+        transcriptionProvider: normalizeTranscriptionProviderSettings({
+          ...prev.transcriptionProvider,
+          ...settings,
+        }),
+      }));
+    },
+    []
+  );
+
+  const setMicDeviceId = useCallback((deviceId: string) => {
+    setState((prev) => ({ ...prev, micDeviceId: deviceId }));
+  }, []);
+
+  const setMicTranscriptionEngine = useCallback((engine: MicTranscriptionEngine) => {
+    setState((prev) => ({ ...prev, micTranscriptionEngine: engine }));
+  }, []);
+
+  const setMicLanguage = useCallback((language: RecognitionLanguage) => {
+    setState((prev) => ({ ...prev, micLanguage: language }));
+  }, []);
+
+  const setSystemLanguage = useCallback((language: RecognitionLanguage) => {
+    setState((prev) => ({ ...prev, systemLanguage: language }));
+  }, []);
+
+  const setVocabulary = useCallback((vocabulary: Partial<VocabularySettings>) => {
+    setState((prev) => ({ ...prev, vocabulary: { ...prev.vocabulary, ...vocabulary } }));
+  }, []);
+
+  const setHallucinationPhrases = useCallback((phrases: string) => {
+    setState((prev) => ({ ...prev, hallucinationPhrases: phrases }));
+  }, []);
+
+  const setLogTimeDisplay = useCallback((display: LogTimeDisplay) => {
+    setState((prev) => ({ ...prev, logTimeDisplay: display }));
+  }, []);
+
+  const setSystemDiarization = useCallback((enabled: boolean) => {
+    setState((prev) => ({ ...prev, systemDiarization: enabled }));
+  }, []);
+
+  const setSystemInterim = useCallback((enabled: boolean) => {
+    setState((prev) => ({ ...prev, systemInterim: enabled }));
+  }, []);
+
+  const setSystemGainMode = useCallback((mode: SystemGainMode) => {
+    setState((prev) => ({ ...prev, systemGainMode: mode }));
+  }, []);
+
+  const setSystemManualGain = useCallback((gain: number) => {
+    setState((prev) => ({ ...prev, systemManualGain: clampSystemGain(gain) }));
+  }, []);
+
+  const setBleedHandling = useCallback((handling: BleedHandling) => {
+    setState((prev) => ({ ...prev, bleedHandling: handling }));
+  }, []);
+
   const setResumeDocument = useCallback((document: DocumentPayload) => {
     setState((prev) => ({
       ...prev,
@@ -259,7 +641,11 @@ export function useInterviewStore() {
   }, []);
 
   const setInterviewAnalysis = useCallback((analysis: InterviewAnalysis | null) => {
-    setState((prev) => ({ ...prev, interviewAnalysis: analysis }));
+    setState((prev) => ({
+      ...prev,
+      interviewAnalysis: analysis,
+      roster: addCandidateToRoster(prev.roster, analysis?.basicInfo),
+    }));
   }, []);
 
   const resetAll = useCallback(() => {
@@ -268,17 +654,51 @@ export function useInterviewStore() {
       groqApiKey: prev.groqApiKey,
       geminiApiKey: prev.geminiApiKey,
       geminiModel: prev.geminiModel,
+      llmProvider: prev.llmProvider,
+      transcriptionProvider: prev.transcriptionProvider,
+      micDeviceId: prev.micDeviceId,
+      micTranscriptionEngine: prev.micTranscriptionEngine,
+      micLanguage: prev.micLanguage,
+      systemLanguage: prev.systemLanguage,
+      vocabulary: prev.vocabulary,
+      hallucinationPhrases: prev.hallucinationPhrases,
+      logTimeDisplay: prev.logTimeDisplay,
+      systemDiarization: prev.systemDiarization,
+      systemInterim: prev.systemInterim,
+      systemGainMode: prev.systemGainMode,
+      systemManualGain: prev.systemManualGain,
+      bleedHandling: prev.bleedHandling,
     }));
   }, []);
 
   return {
     state,
     addLog,
+    updateLogText,
+    chooseLogAlternative,
+    addParticipant,
+    updateParticipant,
+    removeParticipant,
+    assignSpeaker,
     clearLogs,
     updateFreeMemo,
     setGroqApiKey,
     setGeminiApiKey,
     setGeminiModel,
+    setLlmProvider,
+    setTranscriptionProvider,
+    setMicDeviceId,
+    setMicTranscriptionEngine,
+    setMicLanguage,
+    setSystemLanguage,
+    setVocabulary,
+    setHallucinationPhrases,
+    setLogTimeDisplay,
+    setSystemDiarization,
+    setSystemInterim,
+    setSystemGainMode,
+    setSystemManualGain,
+    setBleedHandling,
     setResumeDocument,
     setWorkHistoryDocument,
     setInterviewAnalysis,
@@ -0,0 +1,286 @@
+/**
+ * 音声アーカイブ管理モジュール
+ * - CH1（マイク）と CH2（システム音声）をセッション全体分 IndexedDB に録音保存する
+ * - 容量が大きいため localStorage の保存データには含めない
+ * - 会話ログの時刻から録音位置を引き当てて、聞き直し・ダウンロードできるようにする
+ */
+
+import type { CaptureChannel } from "@/lib/capture-health";
+import { downloadBlob } from "@/lib/export";
+import { isIndexedDbSupported, openDatabase, requestToPromise, transactionDone } from "@/lib/indexed-db";
+import { sliceWebm } from "@/lib/webm-clusters";
+
+export interface ArchiveSegment {
+    /** セグメントID（録音開始〜停止の1区間） */
+    id: string;
+    channel: CaptureChannel;
+    /** 録音開始時刻（epoch ms） */
+    startedAt: number;
+    /** 録音終了時刻（epoch ms）。録音中・異常終了時は null */
+    endedAt: number | null;
+    mimeType: string;
+}
+
+/** 再生用に切り出した録音 */
+export interface ArchiveClip {
+    blob: Blob;
+    /** 切り出した先頭から再生を始める位置（ms） */
+    offsetMs: number;
+}
+
+export interface ArchivePosition {
+    segment: ArchiveSegment;
+    /** セグメント先頭からのオフセット（ms） */
+    offsetMs: number;
+}
+
+interface ArchiveChunkRecord {
+    segmentId: string;
+    seq: number;
+    blob: Blob;
+}
+
+const DB_NAME = "gijiroku_audio_archive";
+const DB_VERSION = 1;
+const SEGMENT_STORE = "segments";
+const CHUNK_STORE = "chunks";
+const ARCHIVE_TIMESLICE_MS = 1000;
+const ARCHIVE_MIME_TYPE = "audio/webm;codecs=opus";
+
+const CHANNEL_LABELS: Record<CaptureChannel, string> = {
+    mic: "ch1_mic",
+    system: "ch2_system",
+};
+
+function openArchiveDb(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(SEGMENT_STORE)) {
+            db.createObjectStore(SEGMENT_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+            const chunkStore = db.createObjectStore(CHUNK_STORE, { keyPath: ["segmentId", "seq"] });
+            chunkStore.createIndex("segmentId", "segmentId");
+        }
+    });
+}
+
+/** ブラウザが音声アーカイブ（IndexedDB + MediaRecorder）に対応しているか */
+export function isAudioArchiveSupported(): boolean {
+    return isIndexedDbSupported() && typeof MediaRecorder !== "undefined";
+}
+
+async function saveArchiveSegment(segment: ArchiveSegment): Promise<void> {
+    const db = await openArchiveDb();
+    const transaction = db.transaction(SEGMENT_STORE, "readwrite");
+    transaction.objectStore(SEGMENT_STORE).put(segment);
+    await transactionDone(transaction);
+}
+
+async function appendArchiveChunk(chunk: ArchiveChunkRecord): Promise<void> {
+    const db = await openArchiveDb();
+    const transaction = db.transaction(CHUNK_STORE, "readwrite");
+    transaction.objectStore(CHUNK_STORE).put(chunk);
+    await transactionDone(transaction);
+}
+
+/**
+ * 取り込んだ録音ファイルを1つのセグメントとして保存
+ * 会話ログから聞き直せるよう、ライブ録音と同じく時刻で引き当てる
+ */
+export async function saveImportedArchiveSegment(
+    channel: CaptureChannel,
+    blob: Blob,
+    startedAt: number,
+    endedAt: number
+): Promise<void> {
+    if (!isAudioArchiveSupported()) return;
+
+    const segment: ArchiveSegment = {
+        id: `${channel}-import-${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        channel,
+        startedAt,
+        endedAt,
+        mimeType: blob.type || "application/octet-stream",
+    };
+    await appendArchiveChunk({ segmentId: segment.id, seq: 0, blob });
+    await saveArchiveSegment(segment);
+}
+
+/** 保存済みセグメントを録音開始順に取得 */
+export async function listArchiveSegments(): Promise<ArchiveSegment[]> {
+    if (!isAudioArchiveSupported()) return [];
+
+    const db = await openArchiveDb();
+    const transaction = db.transaction(SEGMENT_STORE, "readonly");
+    const segments = await requestToPromise(
+        transaction.objectStore(SEGMENT_STORE).getAll() as IDBRequest<ArchiveSegment[]>
+    );
+    return segments.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/** セグメントの録音データを1つの Blob として読み出す */
+export async function loadArchiveSegmentBlob(segment: ArchiveSegment): Promise<Blob> {
+    const db = await openArchiveDb();
+    const transaction = db.transaction(CHUNK_STORE, "readonly");
+    const chunks = await requestToPromise(
+        transaction.objectStore(CHUNK_STORE).index("segmentId").getAll(segment.id) as IDBRequest<ArchiveChunkRecord[]>
+    );
+    chunks.sort((a, b) => a.seq - b.seq);
+    return new Blob(chunks.map((chunk) => chunk.blob), { type: segment.mimeType });
+}
+
+/**
+ * セグメントの fromMs〜toMs（セグメント先頭からの ms）を含む部分を切り出す
+ * ライブ録音の WebM はシークできないため Cluster 単位で切り出す。WebM でない場合（取り込んだファイルなど）は null
+ */
+export async function sliceArchiveSegment(
+    segment: ArchiveSegment,
+    blob: Blob,
+    fromMs: number,
+    toMs: number
+): Promise<ArchiveClip | null> {
+    if (!segment.mimeType.includes("webm")) return null;
+
+    const slice = sliceWebm(new Uint8Array(await blob.arrayBuffer()), fromMs, toMs, segment.mimeType);
+    return slice ? { blob: slice.blob, offsetMs: Math.max(0, fromMs - slice.startMs) } : null;
+}
+
+/**
+ * 指定時刻を含む録音位置を探す
+ * 終了時刻が記録されていないセグメントは、同チャンネルの次のセグメント開始までを範囲とみなす
+ */
+export async function findArchivePosition(
+    channel: CaptureChannel,
+    timestamp: number
+): Promise<ArchivePosition | null> {
+    const segments = (await listArchiveSegments()).filter((segment) => segment.channel === channel);
+
+    for (let i = segments.length - 1; i >= 0; i--) {
+        const segment = segments[i];
+        const end = segment.endedAt ?? segments[i + 1]?.startedAt ?? Number.POSITIVE_INFINITY;
+        if (timestamp >= segment.startedAt && timestamp <= end) {
+            return { segment, offsetMs: timestamp - segment.startedAt };
+        }
+    }
+    return null;
+}
+
+/** アーカイブをすべて削除 */
+export async function clearAudioArchive(): Promise<void> {
+    if (!isAudioArchiveSupported()) return;
+
+    try {
+        const db = await openArchiveDb();
+        const transaction = db.transaction([SEGMENT_STORE, CHUNK_STORE], "readwrite");
+        transaction.objectStore(SEGMENT_STORE).clear();
+        transaction.objectStore(CHUNK_STORE).clear();
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error("音声アーカイブの削除に失敗しました:", error);
+    }
+}
+
+/**
+ * アーカイブをダウンロード
+ * 録音区間ごとに1ファイル（ライブ録音は WebM、取り込んだファイルは元の形式）として保存し、保存したファイル数を返す
+ */
+export async function downloadAudioArchive(): Promise<number> {
+    const segments = await listArchiveSegments();
+    let downloaded = 0;
+
+    for (const segment of segments) {
+        const blob = await loadArchiveSegmentBlob(segment);
+        if (blob.size === 0) continue;
+
+        downloadBlob(
+            blob,
+            `gijiroku_${CHANNEL_LABELS[segment.channel]}_${formatFileTimestamp(segment.startedAt)}.${getFileExtension(segment.mimeType)}`
+        );
+        downloaded++;
+    }
+
+    return downloaded;
+}
+
+function getFileExtension(mimeType: string): string {
+    if (mimeType.includes("wav")) return "wav";
+    if (mimeType.includes("mpeg")) return "mp3";
+    if (mimeType.startsWith("video/mp4")) return "mp4";
+    if (mimeType.includes("mp4") || mimeType.includes("m4a")) return "m4a";
+    if (mimeType.includes("ogg")) return "ogg";
+    return "webm";
+}
+
+function formatFileTimestamp(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/**
+ * 1チャンネル分の連続録音
+ * MediaRecorder を timeslice 付きで回し、得られた断片を順番に IndexedDB に追記する
+ */
+export class AudioArchiveRecorder {
+    private recorder: MediaRecorder | null = null;
+    private segment: ArchiveSegment | null = null;
+
+    constructor(private readonly channel: CaptureChannel) { }
+
+    /** 録音を開始 */
+    start(stream: MediaStream): void {
+        if (!isAudioArchiveSupported() || this.recorder) return;
+
+        const audioStream = new MediaStream(stream.getAudioTracks());
+        if (audioStream.getAudioTracks().length === 0) return;
+
+        let recorder: MediaRecorder;
+        try {
+            recorder = new MediaRecorder(audioStream, { mimeType: ARCHIVE_MIME_TYPE });
+        } catch {
+            recorder = new MediaRecorder(audioStream);
+        }
+
+        const segment: ArchiveSegment = {
+            id: `${this.channel}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            channel: this.channel,
+            startedAt: Date.now(),
+            endedAt: null,
+            mimeType: recorder.mimeType || ARCHIVE_MIME_TYPE,
+        };
+
+        // stop() 後に届く最後の断片も同じセグメントに書き込めるよう、連番はローカルに持つ
+        let seq = 0;
+        recorder.ondataavailable = (event) => {
+            if (event.data.size === 0) return;
+            appendArchiveChunk({ segmentId: segment.id, seq: seq++, blob: event.data }).catch((error) => {
+                console.error("音声アーカイブの書き込みに失敗しました:", error);
+            });
+        };
+
+        this.recorder = recorder;
+        this.segment = segment;
+
+        saveArchiveSegment(segment).catch((error) => {
+            console.error("音声アーカイブの作成に失敗しました:", error);
+        });
+        recorder.start(ARCHIVE_TIMESLICE_MS);
+    }
+
+    /** 録音を停止し、終了時刻を記録 */
+    stop(): void {
+        if (this.recorder && this.recorder.state !== "inactive") {
+            this.recorder.stop();
+        }
+
+        if (this.segment) {
+            const finished = { ...this.segment, endedAt: Date.now() };
+            saveArchiveSegment(finished).catch((error) => {
+                console.error("音声アーカイブの更新に失敗しました:", error);
+            });
+        }
+
+        this.recorder = null;
+        this.segment = null;
+    }
+}
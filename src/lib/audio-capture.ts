@@ -3,20 +3,50 @@
  * - CH1: マイク（getUserMedia）→ 自分の声
  * - CH2: システム音声（getDisplayMedia）→ 相手の声（Zoom/Teams等）
  * - MediaRecorder でシステム音声チャンクを生成し、外部STT APIに送信可能
+ * - Web Speech API が使えない場合などは、マイクも同じようにチャンク化して STT に送れる
+ * - チャンクは音声区間検出（VAD）で発話の切れ目に合わせて区切る（chunk-recorder）
+ * - 両チャンネルのレベルを計測し、無音・音割れ・信号なしを診断する
+ * - システム音声は自動ゲイン調整とリミッターで音量をそろえる
+ * - 直近のレベル履歴を保持し、スピーカーからマイクへの回り込み判定に使う
+ * - 両チャンネルをセッション全体分アーカイブ録音（audio-archive）
  */
 
+import { AudioArchiveRecorder } from "@/lib/audio-archive";
+import { createLevelMeterNode, type AudioLevelFrame } from "@/lib/audio-level-meter";
+import { computeEchoCorrelation, type LevelSample } from "@/lib/bleed-detection";
+import { ChannelHealthMonitor, type AudioHealthWarning, type CaptureChannel } from "@/lib/capture-health";
+import { VoiceChunkRecorder } from "@/lib/chunk-recorder";
+import {
+    AutomaticGainController,
+    clampSystemGain,
+    DEFAULT_SYSTEM_GAIN_SETTING,
+    type SystemGainSetting,
+} from "@/lib/gain-control";
+
 export interface AudioCaptureState {
     /** マイクストリームが有効か */
     micActive: boolean;
     /** システム音声ストリームが有効か */
     systemAudioActive: boolean;
+    /** マイクの入力レベル（0〜1） */
+    micLevel: number;
+    /** システム音声の入力レベル（0〜1、増幅後） */
+    systemLevel: number;
+    /** システム音声の現在の増幅率（倍） */
+    systemGain: number;
+    /** システム音声がリミッターでも抑えきれず音割れしているか */
+    systemClipping: boolean;
+    /** キャプチャの健全性に関する警告 */
+    warnings: AudioHealthWarning[];
 }
 
 export interface SystemAudioChunk {
     /** 音声データ（Blob） */
     blob: Blob;
-    /** タイムスタンプ */
+    /** チャンクの録音開始時刻（epoch ms） */
     timestamp: number;
+    /** チャンクの録音終了時刻（epoch ms）。取り込みファイルなどでは省略 */
+    endedAt?: number;
 }
 
 declare global {
@@ -25,7 +55,20 @@ declare global {
     }
 }
 
-const SYSTEM_AUDIO_CHUNK_MS = 8000;
+/** レベル変化による状態通知の最短間隔 */
+const LEVEL_NOTIFY_MS = 100;
+const DEVICE_CHANGE_DEBOUNCE_MS = 500;
+/** 回り込み判定用に保持するレベル履歴の長さ */
+const LEVEL_HISTORY_MS = 60_000;
+
+/** 音声入力デバイスの一覧（ラベルはマイク許可後にのみ取得できる） */
+export async function listAudioInputDevices(): Promise<MediaDeviceInfo[]> {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) {
+        return [];
+    }
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === "audioinput");
+}
 
 /**
  * 音声キャプチャエンジン
@@ -35,39 +78,123 @@ export class AudioCaptureEngine {
     private micStream: MediaStream | null = null;
     private systemStream: MediaStream | null = null;
 
-    // ダブルバッファリング用
-    private recorders: MediaRecorder[] = [];
-    private recorderChunks: Blob[][] = [[], []];
-    private activeRecorderIndex = 0;
-    private switchInterval: NodeJS.Timeout | null = null;
+    // 発話チャンクの録音（マイクは Whisper で文字起こしする場合のみ）
+    private systemChunks: VoiceChunkRecorder;
+    private micChunks: VoiceChunkRecorder;
+    private micChunkingEnabled = false;
 
     private audioContext: AudioContext | null = null;
     private sourceNode: MediaStreamAudioSourceNode | null = null;
     private inputGainNode: GainNode | null = null;
+    private limiterNode: DynamicsCompressorNode | null = null;
+    private systemMeterNode: AudioWorkletNode | null = null;
     private destinationNode: MediaStreamAudioDestinationNode | null = null;
     private keepAliveOscillator: OscillatorNode | null = null;
+    private micSourceNode: MediaStreamAudioSourceNode | null = null;
+    private micMeterNode: AudioWorkletNode | null = null;
+    private micSinkNode: GainNode | null = null;
+
+    // レベル計測と診断
+    private micHealth = new ChannelHealthMonitor("mic");
+    private systemHealth = new ChannelHealthMonitor("system");
+    private lastLevelNotifyAt = 0;
+    private levelHistory: Record<CaptureChannel, LevelSample[]> = { mic: [], system: [] };
+
+    // システム音声のゲイン
+    private gainSetting: SystemGainSetting = DEFAULT_SYSTEM_GAIN_SETTING;
+    private agc = new AutomaticGainController();
+
+    // マイクデバイス（空文字は既定のデバイス）
+    private micDeviceId = "";
+    private deviceChangeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // セッション全体のアーカイブ録音
+    private micArchive = new AudioArchiveRecorder("mic");
+    private systemArchive = new AudioArchiveRecorder("system");
 
-    private onChunkCallback: ((chunk: SystemAudioChunk) => void) | null = null;
     private onStateChange: ((state: AudioCaptureState) => void) | null = null;
+    private onMicrophoneSwitch: ((message: string) => void) | null = null;
+    private onMicrophoneLost: ((message: string) => void) | null = null;
 
     constructor(options?: {
         onChunk?: (chunk: SystemAudioChunk) => void;
+        /** 録音中のシステム音声チャンクの途中経過（setSystemPartialsEnabled(true) の時のみ） */
+        onPartialChunk?: (chunk: SystemAudioChunk) => void;
+        /** マイクのチャンク（setMicChunkingEnabled(true) の時のみ） */
+        onMicChunk?: (chunk: SystemAudioChunk) => void;
         onStateChange?: (state: AudioCaptureState) => void;
+        /** マイクを別のデバイスに切り替えた時の通知 */
+        onMicrophoneSwitch?: (message: string) => void;
+        /** マイクを取り直せず、録音を止めた時の通知 */
+        onMicrophoneLost?: (message: string) => void;
     }) {
-        this.onChunkCallback = options?.onChunk ?? null;
+        this.systemChunks = new VoiceChunkRecorder(
+            (chunk) => options?.onChunk?.(chunk),
+            (chunk) => options?.onPartialChunk?.(chunk)
+        );
+        this.micChunks = new VoiceChunkRecorder((chunk) => options?.onMicChunk?.(chunk));
         this.onStateChange = options?.onStateChange ?? null;
+        this.onMicrophoneSwitch = options?.onMicrophoneSwitch ?? null;
+        this.onMicrophoneLost = options?.onMicrophoneLost ?? null;
+    }
+
+    /**
+     * マイクアクセスを開始（CH1: 自分の声用）
+     * deviceId を省略すると前回指定したデバイス（未指定なら既定のデバイス）を使う
+     */
+    async startMicrophone(deviceId: string = this.micDeviceId): Promise<boolean> {
+        this.micDeviceId = deviceId;
+        const started = await this.acquireMicrophone(deviceId);
+        if (started) {
+            navigator.mediaDevices.addEventListener("devicechange", this.handleDeviceChange);
+        }
+        return started;
     }
 
-    /** マイクアクセスを開始（CH1: 自分の声用） */
-    async startMicrophone(): Promise<boolean> {
+    /** 使用するマイクを変更。録音中なら新しいデバイスで取り直す */
+    async setMicrophoneDevice(deviceId: string): Promise<void> {
+        if (deviceId === this.micDeviceId) return;
+        this.micDeviceId = deviceId;
+        if (this.micStream && !(await this.switchMicrophone(deviceId))) {
+            this.loseMicrophone("選択したマイクを開けませんでした。マイクを確認してから録音を開始し直してください。");
+        }
+    }
+
+    /**
+     * マイクをチャンク化して STT に送るかを切り替える（録音中なら即時反映）
+     * Web Speech API の代わりに Whisper で文字起こしする場合に使う
+     */
+    setMicChunkingEnabled(enabled: boolean): void {
+        this.micChunkingEnabled = enabled;
+        if (!enabled) {
+            this.micChunks.stop();
+        } else if (this.micStream) {
+            this.startMicChunks(this.micStream);
+        }
+    }
+
+    /** システム音声の途中経過を渡すか（録音中なら次のチャンクから反映） */
+    setSystemPartialsEnabled(enabled: boolean): void {
+        this.systemChunks.setPartialsEnabled(enabled);
+    }
+
+    private startMicChunks(stream: MediaStream): void {
+        if (!this.micChunkingEnabled) return;
+        // レベル計測が動いていれば発話の切れ目で、なければ固定長で区切る
+        if (this.micMeterNode) {
+            this.micChunks.start(stream);
+        } else {
+            this.micChunks.startSimple(stream);
+        }
+    }
+
+    private async acquireMicrophone(deviceId: string): Promise<boolean> {
         try {
-            this.micStream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true,
-                },
-            });
+            this.micStream = await this.openMicrophoneStream(deviceId);
+            this.micArchive.start(this.micStream);
+            this.watchTrack(this.micStream.getAudioTracks()[0]);
+            await this.setupMicMeter(this.micStream);
+            this.startMicChunks(this.micStream);
             this.notifyStateChange();
             return true;
         } catch (error) {
@@ -76,6 +203,90 @@ export class AudioCaptureEngine {
         }
     }
 
+    /** 指定デバイスのマイクを開く。見つからない場合は既定のデバイスで開き直す */
+    private async openMicrophoneStream(deviceId: string): Promise<MediaStream> {
+        const audio: MediaTrackConstraints = {
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+        };
+
+        if (!deviceId) {
+            return navigator.mediaDevices.getUserMedia({ audio });
+        }
+
+        try {
+            return await navigator.mediaDevices.getUserMedia({
+                audio: { ...audio, deviceId: { exact: deviceId } },
+            });
+        } catch (error) {
+            const name = (error as { name?: string }).name;
+            if (name !== "OverconstrainedError" && name !== "NotFoundError") {
+                throw error;
+            }
+            this.onMicrophoneSwitch?.("選択したマイクが見つからないため、既定のマイクを使用します。");
+            return navigator.mediaDevices.getUserMedia({ audio });
+        }
+    }
+
+    /** 現在のマイクを解放して、指定デバイスで取り直す */
+    private async switchMicrophone(deviceId: string): Promise<boolean> {
+        this.releaseMicrophone();
+        const started = await this.acquireMicrophone(deviceId);
+        if (!started) {
+            this.notifyStateChange();
+        }
+        return started;
+    }
+
+    /**
+     * デバイスの抜き差しへの追従
+     * トラックが切れた・希望のデバイスが戻ってきた・既定のデバイスが変わった場合にマイクを取り直す
+     */
+    private handleDeviceChange = () => {
+        // 抜き差しでは devicechange が連続して発火するため、まとめて処理する
+        if (this.deviceChangeTimer) {
+            clearTimeout(this.deviceChangeTimer);
+        }
+        this.deviceChangeTimer = setTimeout(() => {
+            this.deviceChangeTimer = null;
+            void this.recoverMicrophone();
+        }, DEVICE_CHANGE_DEBOUNCE_MS);
+    };
+
+    private async recoverMicrophone(): Promise<void> {
+        if (!this.micStream) return;
+
+        const track = this.micStream.getAudioTracks()[0];
+        const settings = track?.getSettings();
+        const devices = await listAudioInputDevices();
+        const target = devices.some((device) => device.deviceId === this.micDeviceId) ? this.micDeviceId : "";
+
+        let needsSwitch = !track || track.readyState === "ended";
+        if (!needsSwitch && target) {
+            needsSwitch = settings?.deviceId !== target;
+        } else if (!needsSwitch) {
+            const defaultDevice = devices.find((device) => device.deviceId === "default") ?? devices[0];
+            needsSwitch = Boolean(defaultDevice?.groupId && settings?.groupId && defaultDevice.groupId !== settings.groupId);
+        }
+        if (!needsSwitch) return;
+
+        const switched = await this.switchMicrophone(target);
+        if (!switched) {
+            this.loseMicrophone("マイクが切断されました。マイクを接続してから録音を開始し直してください。");
+            return;
+        }
+
+        const label = this.micStream?.getAudioTracks()[0]?.label || "既定のマイク";
+        this.onMicrophoneSwitch?.(`マイクの接続が変わったため「${label}」に切り替えました。`);
+    }
+
+    /** マイクを取り直せなかった時は録音を止め、音声認識も止めてもらう */
+    private loseMicrophone(message: string): void {
+        this.stopMicrophone();
+        this.onMicrophoneLost?.(message);
+    }
+
     /**
      * システム音声キャプチャを開始（CH2: 相手の声用）
      * getDisplayMedia で画面共有ダイアログを表示し、音声を取得する
@@ -83,16 +294,8 @@ export class AudioCaptureEngine {
      */
     async startSystemAudio(): Promise<boolean> {
         try {
-            // AudioContextの初期化（ブラウザ互換性対応）
-            if (!this.audioContext) {
-                const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-                if (!AudioContextClass) {
-                    return false;
-                }
-                this.audioContext = new AudioContextClass();
-            }
-            if (this.audioContext && this.audioContext.state === 'suspended') {
-                await this.audioContext.resume();
+            if (!(await this.ensureAudioContext())) {
+                return false;
             }
 
             this.systemStream = await navigator.mediaDevices.getDisplayMedia({
@@ -118,8 +321,13 @@ export class AudioCaptureEngine {
                 track.enabled = false;
             });
 
+            this.watchTrack(audioTracks[0]);
+
+            // 増幅前の音声をそのままアーカイブ録音
+            this.systemArchive.start(this.systemStream);
+
             // AudioContextを使用したミキシング（Keep-Alive対策）
-            this.setupAudioMixing(this.systemStream);
+            await this.setupAudioMixing(this.systemStream);
 
             // ストリーム終了時（ユーザーが共有を停止した時）のハンドリング
             audioTracks[0].onended = () => {
@@ -134,10 +342,95 @@ export class AudioCaptureEngine {
         }
     }
 
+    /** AudioContextの初期化（ブラウザ互換性対応） */
+    private async ensureAudioContext(): Promise<boolean> {
+        if (!this.audioContext) {
+            const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+            if (!AudioContextClass) {
+                return false;
+            }
+            this.audioContext = new AudioContextClass();
+        }
+        if (this.audioContext.state === "suspended") {
+            await this.audioContext.resume();
+        }
+        return true;
+    }
+
+    /** トラックのミュート・終了を状態に反映する */
+    private watchTrack(track: MediaStreamTrack | undefined): void {
+        if (!track) return;
+        track.addEventListener("mute", () => this.notifyStateChange());
+        track.addEventListener("unmute", () => this.notifyStateChange());
+        track.addEventListener("ended", () => this.notifyStateChange());
+    }
+
+    /**
+     * マイクのレベル計測
+     * 計測ノードを処理させるため、無音のゲインを経由して出力先につなぐ
+     */
+    private async setupMicMeter(stream: MediaStream): Promise<void> {
+        try {
+            if (!(await this.ensureAudioContext()) || !this.audioContext) return;
+
+            this.micHealth.reset();
+            this.micSourceNode = this.audioContext.createMediaStreamSource(stream);
+            this.micMeterNode = await createLevelMeterNode(this.audioContext, (frame) => {
+                this.micChunks.push(frame);
+                this.handleLevel("mic", frame);
+            });
+            this.micSinkNode = this.audioContext.createGain();
+            this.micSinkNode.gain.value = 0;
+
+            this.micSourceNode.connect(this.micMeterNode);
+            this.micMeterNode.connect(this.micSinkNode);
+            this.micSinkNode.connect(this.audioContext.destination);
+        } catch (error) {
+            console.warn("マイクのレベル計測を開始できませんでした:", error);
+            this.releaseMicMeter();
+        }
+    }
+
+    private releaseMicMeter(): void {
+        if (this.micSourceNode) {
+            this.micSourceNode.disconnect();
+            this.micSourceNode = null;
+        }
+        if (this.micMeterNode) {
+            this.micMeterNode.port.onmessage = null;
+            this.micMeterNode.disconnect();
+            this.micMeterNode = null;
+        }
+        if (this.micSinkNode) {
+            this.micSinkNode.disconnect();
+            this.micSinkNode = null;
+        }
+        this.micHealth.reset();
+        this.levelHistory.mic = [];
+    }
+
+    /** レベルを診断に渡し、一定間隔で状態を通知する */
+    private handleLevel(channel: CaptureChannel, frame: AudioLevelFrame): void {
+        const now = Date.now();
+        (channel === "mic" ? this.micHealth : this.systemHealth).push(frame, now);
+
+        const history = this.levelHistory[channel];
+        history.push({ time: now, rms: frame.rms });
+        while (history.length > 0 && now - history[0].time > LEVEL_HISTORY_MS) {
+            history.shift();
+        }
+
+        if (now - this.lastLevelNotifyAt >= LEVEL_NOTIFY_MS) {
+            this.lastLevelNotifyAt = now;
+            this.notifyStateChange();
+        }
+    }
+
     /**
      * Web Audio APIを使用して無音信号をミックスし、途切れを防ぐ
+     * 増幅後の音声をレベル計測ノードに通し、VAD でチャンクの区切りを決める
      */
-    private setupAudioMixing(stream: MediaStream): void {
+    private async setupAudioMixing(stream: MediaStream): Promise<void> {
         if (!this.audioContext) return;
 
         try {
@@ -145,13 +438,32 @@ export class AudioCaptureEngine {
             this.sourceNode = this.audioContext.createMediaStreamSource(stream);
             this.destinationNode = this.audioContext.createMediaStreamDestination();
 
-            // ゲイン調整（音量増幅）
+            // ゲイン調整（音量増幅）。自動調整時は発話レベルに合わせて随時更新する
+            this.agc.reset();
             this.inputGainNode = this.audioContext.createGain();
-            this.inputGainNode.gain.value = 5.0; // システム音量は小さい傾向があるため5倍に増幅
+            this.inputGainNode.gain.value = this.getTargetSystemGain();
+
+            // リミッター（増幅しすぎた時の音割れ防止）
+            this.limiterNode = this.audioContext.createDynamicsCompressor();
+            this.limiterNode.threshold.value = -6;
+            this.limiterNode.knee.value = 0;
+            this.limiterNode.ratio.value = 20;
+            this.limiterNode.attack.value = 0.003;
+            this.limiterNode.release.value = 0.25;
+
+            // レベル計測（VAD・自動ゲイン調整・音割れ判定用）。入力をそのまま出力に流す
+            // リミッターで抑えた後ではピークが上限に届かないため、増幅直後で計測する
+            this.systemHealth.reset();
+            this.systemMeterNode = await createLevelMeterNode(this.audioContext, (frame) => {
+                this.handleSystemLevel(frame);
+                this.handleLevel("system", frame);
+            });
 
-            // source -> inputGain -> destination
+            // source -> inputGain -> meter -> limiter -> destination
             this.sourceNode.connect(this.inputGainNode);
-            this.inputGainNode.connect(this.destinationNode);
+            this.inputGainNode.connect(this.systemMeterNode);
+            this.systemMeterNode.connect(this.limiterNode);
+            this.limiterNode.connect(this.destinationNode);
             // Keep-Alive用オシレーター（ごく微細なノイズを混ぜてストリームを持続させる）
             this.keepAliveOscillator = this.audioContext.createOscillator();
             const gainNode = this.audioContext.createGain();
@@ -161,131 +473,98 @@ export class AudioCaptureEngine {
             this.keepAliveOscillator.start();
 
             // MediaRecorder開始（ダブルバッファリング）
-            this.startDualRecording(this.destinationNode.stream);
+            this.systemChunks.start(this.destinationNode.stream);
         } catch (error) {
             console.error("AudioContext設定エラー:", error);
+            this.releaseAudioNodes();
             // エラー時は生のストリームでフォールバック（ダブルバッファリングせず簡易版で）
-            this.startSimpleRecording(stream);
+            this.systemChunks.startSimple(stream);
         }
     }
 
     /**
-     * ダブルバッファリング録音
-     * 2つのMediaRecorderを交互に使って、途切れなく、かつヘッダー付きの完全なファイルを生成する
+     * システム音声のレベルを VAD に渡し、発話の切れ目でレコーダーを切り替える
+     * 自動ゲイン調整もここで更新する
      */
-    private startDualRecording(stream: MediaStream): void {
-        const audioStream = new MediaStream(stream.getAudioTracks());
-
-        // レコーダー初期化ヘルパー
-        const createRecorder = (index: number) => {
-            let recorder: MediaRecorder;
-            try {
-                recorder = new MediaRecorder(audioStream, { mimeType: "audio/webm;codecs=opus" });
-            } catch {
-                recorder = new MediaRecorder(audioStream);
-            }
+    private handleSystemLevel(frame: AudioLevelFrame): void {
+        if (!this.systemChunks.isRecording()) return;
 
-            recorder.ondataavailable = (e) => {
-                if (e.data.size > 0) {
-                    this.recorderChunks[index].push(e.data);
-                }
-            };
-
-            recorder.onstop = () => {
-                const blob = new Blob(this.recorderChunks[index], { type: "audio/webm;codecs=opus" });
-                this.recorderChunks[index] = []; // クリア
-
-                if (blob.size > 0 && this.onChunkCallback) {
-                    this.onChunkCallback({
-                        blob,
-                        timestamp: Date.now()
-                    });
-                }
-            };
-
-            return recorder;
-        };
-
-        this.recorders = [createRecorder(0), createRecorder(1)];
-        this.activeRecorderIndex = 0;
-
-        // 最初のレコーダー開始
-        this.recorders[0].start();
-
-        // 3秒ごとに切り替え
-        this.switchInterval = setInterval(() => {
-            const nextIndex = (this.activeRecorderIndex + 1) % 2;
-            const currentIndex = this.activeRecorderIndex;
-
-            // 次のレコーダーを開始してから、今のレコーダーを止める（オーバーラップではないが、隙間を最小限に）
-            // ※ MediaStreamは共有されているので、同時にstartして良い
-            // しかし、完全にオーバーラップさせると重複録音になるので、
-            // 「次を開始」→「即座に前を停止」とする。
-
-            if (this.recorders[nextIndex].state === "inactive") {
-                this.recorders[nextIndex].start();
-            }
+        this.systemChunks.push(frame);
 
-            if (this.recorders[currentIndex].state !== "inactive") {
-                this.recorders[currentIndex].stop();
+        if (this.gainSetting.mode === "auto") {
+            const gain = this.agc.process(frame, this.systemChunks.isSpeaking());
+            if (gain !== null) {
+                this.applySystemGain(gain);
             }
-
-            this.activeRecorderIndex = nextIndex;
-        }, SYSTEM_AUDIO_CHUNK_MS);
+        }
     }
 
     /**
-     * 簡易録音（AudioContext失敗時のフォールバック）
-     * timesliceを使うため、ヘッダー欠落のリスクがあるが、最低限動作させる
+     * 指定区間のマイクとシステム音声の包絡線の相関（0〜1）
+     * 両チャンネルのレベル履歴がない場合は null
      */
-    private startSimpleRecording(stream: MediaStream): void {
-        const audioStream = new MediaStream(stream.getAudioTracks());
-        let recorder: MediaRecorder;
-        try {
-            recorder = new MediaRecorder(audioStream, { mimeType: "audio/webm;codecs=opus" });
-        } catch {
-            recorder = new MediaRecorder(audioStream);
-        }
+    getEchoCorrelation(start: number, end: number): number | null {
+        if (!this.micMeterNode || !this.systemMeterNode) return null;
+        return computeEchoCorrelation(this.levelHistory.mic, this.levelHistory.system, start, end);
+    }
 
-        recorder.ondataavailable = (event) => {
-            if (event.data.size > 0 && this.onChunkCallback) {
-                this.onChunkCallback({
-                    blob: event.data,
-                    timestamp: Date.now(),
-                });
-            }
-        };
+    /** システム音声のゲイン設定を変更（キャプチャ中なら即時反映） */
+    setSystemGainSetting(setting: SystemGainSetting): void {
+        this.gainSetting = setting;
+        this.applySystemGain(this.getTargetSystemGain());
+    }
 
-        recorder.start(SYSTEM_AUDIO_CHUNK_MS);
-        this.recorders = [recorder]; // 管理配列に入れておく（stop時用）
+    private getTargetSystemGain(): number {
+        return this.gainSetting.mode === "manual"
+            ? clampSystemGain(this.gainSetting.manualGain)
+            : this.agc.getGain();
+    }
+
+    private applySystemGain(gain: number): void {
+        if (!this.inputGainNode || !this.audioContext) return;
+        // 急な音量変化でノイズが出ないよう、なめらかに変化させる
+        this.inputGainNode.gain.setTargetAtTime(gain, this.audioContext.currentTime, 0.05);
+        this.notifyStateChange();
     }
 
     /** マイクを停止 */
     stopMicrophone(): void {
+        navigator.mediaDevices?.removeEventListener("devicechange", this.handleDeviceChange);
+        if (this.deviceChangeTimer) {
+            clearTimeout(this.deviceChangeTimer);
+            this.deviceChangeTimer = null;
+        }
+        this.releaseMicrophone();
+        this.notifyStateChange();
+    }
+
+    private releaseMicrophone(): void {
+        this.micChunks.stop();
+        this.micArchive.stop();
+        this.releaseMicMeter();
         if (this.micStream) {
             this.micStream.getTracks().forEach((track) => track.stop());
             this.micStream = null;
         }
-        this.notifyStateChange();
     }
 
     /** システム音声キャプチャを停止 */
     stopSystemAudio(): void {
-        // ダブルバッファリングの停止
-        if (this.switchInterval) {
-            clearInterval(this.switchInterval);
-            this.switchInterval = null;
-        }
+        this.systemChunks.stop();
+        this.systemArchive.stop();
 
-        this.recorders.forEach(rec => {
-            if (rec && rec.state !== "inactive") {
-                rec.stop();
-            }
-        });
-        this.recorders = [];
-        this.recorderChunks = [[], []];
+        this.releaseAudioNodes();
+        // AudioContextは使い回すのでcloseしない（あるいはアプリ終了時のみ）
+
+        if (this.systemStream) {
+            this.systemStream.getTracks().forEach((track) => track.stop());
+            this.systemStream = null;
+        }
+        this.notifyStateChange();
+    }
 
-        // Web Audio API リソースの解放
+    /** Web Audio API リソースの解放 */
+    private releaseAudioNodes(): void {
         if (this.keepAliveOscillator) {
             try { this.keepAliveOscillator.stop(); } catch { }
             this.keepAliveOscillator.disconnect();
@@ -302,13 +581,17 @@ export class AudioCaptureEngine {
             this.inputGainNode.disconnect();
             this.inputGainNode = null;
         }
-        // AudioContextは使い回すのでcloseしない（あるいはアプリ終了時のみ）
-
-        if (this.systemStream) {
-            this.systemStream.getTracks().forEach((track) => track.stop());
-            this.systemStream = null;
+        if (this.limiterNode) {
+            this.limiterNode.disconnect();
+            this.limiterNode = null;
         }
-        this.notifyStateChange();
+        if (this.systemMeterNode) {
+            this.systemMeterNode.port.onmessage = null;
+            this.systemMeterNode.disconnect();
+            this.systemMeterNode = null;
+        }
+        this.systemHealth.reset();
+        this.levelHistory.system = [];
     }
 
     /** すべてを停止 */
@@ -325,9 +608,25 @@ export class AudioCaptureEngine {
 
     /** 現在の状態を取得 */
     getState(): AudioCaptureState {
+        const micActive = this.micStream !== null && this.micStream.active;
+        const systemAudioActive = this.systemStream !== null && this.systemStream.active;
+        const now = Date.now();
+
         return {
-            micActive: this.micStream !== null && this.micStream.active,
-            systemAudioActive: this.systemStream !== null && this.systemStream.active,
+            micActive,
+            systemAudioActive,
+            micLevel: micActive ? this.micHealth.getLevel() : 0,
+            systemLevel: systemAudioActive ? this.systemHealth.getLevel() : 0,
+            systemGain: this.getTargetSystemGain(),
+            systemClipping: systemAudioActive && this.systemHealth.isClipping(now),
+            warnings: [
+                ...(micActive && this.micMeterNode
+                    ? this.micHealth.getWarnings(this.micStream?.getAudioTracks()[0] ?? null, now)
+                    : []),
+                ...(systemAudioActive && this.systemMeterNode
+                    ? this.systemHealth.getWarnings(this.systemStream?.getAudioTracks()[0] ?? null, now)
+                    : []),
+            ],
         };
     }
 
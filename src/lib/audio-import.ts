@@ -0,0 +1,200 @@
+/**
+ * 録音ファイルの取り込み
+ * - 音声・動画ファイル（mp3 / m4a / wav / webm / mp4）をブラウザ内でデコードし、16kHz モノラルにする
+ * - 無音に近い位置で区切ってチャンクに分け、WAV にしてライブ録音と同じ文字起こしに回す
+ * - 各チャンクの時刻は「録音開始時刻＋ファイル先頭からのオフセット」にする
+ */
+
+import type { SystemAudioChunk } from "@/lib/audio-capture";
+import type { TranscriptionResult } from "@/lib/whisper-api";
+
+export interface DecodedAudio {
+    /** モノラルにまとめたサンプル */
+    samples: Float32Array;
+    sampleRate: number;
+    durationMs: number;
+}
+
+export interface ImportChunkRange {
+    startSample: number;
+    endSample: number;
+    /** ファイル先頭からのオフセット（ms） */
+    offsetMs: number;
+}
+
+export interface AudioImportOptions {
+    /** 録音開始時刻（epoch ms） */
+    startedAt: number;
+    transcribe: (chunk: SystemAudioChunk) => Promise<TranscriptionResult | null>;
+    /** 文字起こしできたチャンク（ファイル内の順番に届く） */
+    onResult: (chunk: SystemAudioChunk, result: TranscriptionResult) => void;
+    /** 文字起こしに失敗したチャンク */
+    onError?: (chunk: SystemAudioChunk, error: unknown) => void;
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+/** ファイル選択で受け付ける形式 */
+export const AUDIO_IMPORT_ACCEPT = "audio/*,video/mp4,video/webm,.mp3,.m4a,.wav,.webm,.mp4";
+
+/** Whisper の入力に合わせたサンプルレート */
+const IMPORT_SAMPLE_RATE = 16000;
+/** 1チャンクの目安の長さ（Whisper の処理単位に合わせる） */
+const TARGET_CHUNK_MS = 30_000;
+/** 区切り位置を探す範囲（目安の長さの手前） */
+const SPLIT_SEARCH_MS = 5000;
+const SPLIT_WINDOW_MS = 100;
+/** これより静かなチャンクは送らない */
+const SILENT_CHUNK_RMS = 0.002;
+
+export function isAudioImportSupported(): boolean {
+    return typeof window !== "undefined" && typeof OfflineAudioContext !== "undefined";
+}
+
+/**
+ * ファイルをデコードして 16kHz モノラルにする
+ * decodeAudioData はコンテキストのサンプルレートに変換して返すため、デコード時点でメモリを抑えられる
+ */
+export async function decodeAudioFile(file: Blob): Promise<DecodedAudio> {
+    if (!isAudioImportSupported()) {
+        throw new Error("このブラウザは録音ファイルの読み込みに対応していません。");
+    }
+
+    const context = new OfflineAudioContext(1, 1, IMPORT_SAMPLE_RATE);
+    let buffer: AudioBuffer;
+    try {
+        buffer = await context.decodeAudioData(await file.arrayBuffer());
+    } catch (error) {
+        console.error("録音ファイルのデコードに失敗しました:", error);
+        throw new Error("このファイル形式は読み込めません。mp3 / m4a / wav / webm / mp4 を選択してください。");
+    }
+
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) {
+            samples[i] += data[i] / buffer.numberOfChannels;
+        }
+    }
+
+    return {
+        samples,
+        sampleRate: buffer.sampleRate,
+        durationMs: (buffer.length / buffer.sampleRate) * 1000,
+    };
+}
+
+function getRms(samples: Float32Array, start: number, end: number): number {
+    if (end <= start) return 0;
+
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / (end - start));
+}
+
+/** 範囲内で最も静かな窓の中央を返す（発話の途中で切らないため） */
+function findQuietestPoint(audio: DecodedAudio, from: number, to: number): number {
+    const windowSize = Math.round((audio.sampleRate * SPLIT_WINDOW_MS) / 1000);
+    let best = to;
+    let bestRms = Number.POSITIVE_INFINITY;
+
+    for (let start = Math.max(0, from); start + windowSize <= to; start += windowSize) {
+        const rms = getRms(audio.samples, start, start + windowSize);
+        if (rms < bestRms) {
+            bestRms = rms;
+            best = start + Math.floor(windowSize / 2);
+        }
+    }
+    return best;
+}
+
+/** 文字起こしに送るチャンクの区間を決める（無音のチャンクは除く） */
+export function planImportChunks(audio: DecodedAudio): ImportChunkRange[] {
+    const targetSamples = Math.round((audio.sampleRate * TARGET_CHUNK_MS) / 1000);
+    const searchSamples = Math.round((audio.sampleRate * SPLIT_SEARCH_MS) / 1000);
+    const ranges: ImportChunkRange[] = [];
+
+    let start = 0;
+    while (start < audio.samples.length) {
+        const targetEnd = start + targetSamples;
+        const end = targetEnd >= audio.samples.length
+            ? audio.samples.length
+            : findQuietestPoint(audio, targetEnd - searchSamples, targetEnd);
+
+        if (getRms(audio.samples, start, end) >= SILENT_CHUNK_RMS) {
+            ranges.push({
+                startSample: start,
+                endSample: end,
+                offsetMs: Math.round((start / audio.sampleRate) * 1000),
+            });
+        }
+        start = end;
+    }
+    return ranges;
+}
+
+/** 区間を 16bit PCM の WAV にする */
+export function encodeWavChunk(audio: DecodedAudio, range: ImportChunkRange): Blob {
+    const samples = audio.samples.subarray(range.startSample, range.endSample);
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) {
+            view.setUint8(offset + i, value.charCodeAt(i));
+        }
+    };
+
+    writeString(0, "RIFF");
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, "WAVE");
+    writeString(12, "fmt ");
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 1, true);
+    view.setUint32(24, audio.sampleRate, true);
+    view.setUint32(28, audio.sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, "data");
+    view.setUint32(40, samples.length * 2, true);
+
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+
+    return new Blob([buffer], { type: "audio/wav" });
+}
+
+/**
+ * デコード済みの音声をチャンクごとに文字起こしする
+ * API の利用制限に配慮し、チャンクは1件ずつ順番に送る。WAV への変換も送る直前に行う
+ */
+export async function transcribeDecodedAudio(audio: DecodedAudio, options: AudioImportOptions): Promise<void> {
+    const ranges = planImportChunks(audio);
+    options.onProgress?.(0, ranges.length);
+
+    for (let i = 0; i < ranges.length; i++) {
+        if (options.signal?.aborted) return;
+
+        const chunk: SystemAudioChunk = {
+            blob: encodeWavChunk(audio, ranges[i]),
+            timestamp: options.startedAt + ranges[i].offsetMs,
+            endedAt: options.startedAt + Math.round((ranges[i].endSample / audio.sampleRate) * 1000),
+        };
+
+        try {
+            const result = await options.transcribe(chunk);
+            if (result && !options.signal?.aborted) {
+                options.onResult(chunk, result);
+            }
+        } catch (error) {
+            console.error("録音ファイルの文字起こしに失敗しました:", error);
+            options.onError?.(chunk, error);
+        }
+        options.onProgress?.(i + 1, ranges.length);
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * 音声レベル計測ノード（AudioWorklet）
+ * - 入力をそのまま出力へ流しつつ、一定間隔で RMS / ピークをメインスレッドへ送る
+ * - setInterval と違い、バックグラウンドタブでもタイマー間引きの影響を受けない
+ */
+
+export interface AudioLevelFrame {
+    /** フレーム内の RMS（0〜1） */
+    rms: number;
+    /** フレーム内の最大振幅（0〜1） */
+    peak: number;
+    /** フレームの長さ（ms） */
+    durationMs: number;
+}
+
+const PROCESSOR_NAME = "gijiroku-level-meter";
+const LEVEL_FRAME_MS = 20;
+
+const PROCESSOR_SOURCE = `
+class LevelMeterProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        this.frameSize = options.processorOptions.frameSize;
+        this.sumSquares = 0;
+        this.peak = 0;
+        this.count = 0;
+    }
+
+    process(inputs, outputs) {
+        const input = inputs[0];
+        const output = outputs[0];
+        let frameLength = 128;
+
+        if (input && input.length > 0) {
+            frameLength = input[0].length;
+            for (let c = 0; c < output.length; c++) {
+                output[c].set(input[c] || input[0]);
+            }
+            for (let c = 0; c < input.length; c++) {
+                const samples = input[c];
+                for (let i = 0; i < samples.length; i++) {
+                    const value = samples[i];
+                    const abs = value < 0 ? -value : value;
+                    this.sumSquares += (value * value) / input.length;
+                    if (abs > this.peak) this.peak = abs;
+                }
+            }
+        }
+
+        this.count += frameLength;
+        if (this.count >= this.frameSize) {
+            this.port.postMessage({
+                rms: Math.sqrt(this.sumSquares / this.count),
+                peak: this.peak,
+                durationMs: (this.count / sampleRate) * 1000,
+            });
+            this.sumSquares = 0;
+            this.peak = 0;
+            this.count = 0;
+        }
+        return true;
+    }
+}
+registerProcessor("${PROCESSOR_NAME}", LevelMeterProcessor);
+`;
+
+const registeredContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function registerProcessor(context: AudioContext): Promise<void> {
+    let registration = registeredContexts.get(context);
+    if (!registration) {
+        const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "application/javascript" }));
+        registration = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+        registeredContexts.set(context, registration);
+    }
+    return registration;
+}
+
+/**
+ * レベル計測ノードを作成
+ * 出力は入力と同じ音声なので、既存の経路の途中に挟んで使う
+ */
+export async function createLevelMeterNode(
+    context: AudioContext,
+    onFrame: (frame: AudioLevelFrame) => void
+): Promise<AudioWorkletNode> {
+    if (!context.audioWorklet) {
+        throw new Error("AudioWorklet がサポートされていません");
+    }
+
+    await registerProcessor(context);
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        processorOptions: {
+            frameSize: Math.round((context.sampleRate * LEVEL_FRAME_MS) / 1000),
+        },
+    });
+    node.port.onmessage = (event: MessageEvent<AudioLevelFrame>) => onFrame(event.data);
+    return node;
+}
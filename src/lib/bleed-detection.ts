@@ -0,0 +1,181 @@
+/**
+ * 音声の回り込み（スピーカー → マイク）検出
+ * - イヤホンなしだと相手の声がマイクにも入り、同じ発言が「自分」と「相手」で二重に記録される
+ * - 2チャンネルの音量の包絡線の相関と、近い時刻のログの文字列の重なりから判定する
+ * - 回り込みと判定した「自分」側のログに印を付け、表示・出力時に隠すか目印を付ける
+ *   （同時に話した・室内の雑音が両方に入った場合も相関は高くなるため、隠すのは文字列も重なった場合だけ）
+ */
+
+import type { LogItem } from "@/hooks/useInterviewStore";
+import { isSelfSpeaker } from "@/lib/speakers";
+
+/** suppress: 文字列も重なった重複を隠す / flag: 目印を付けて表示 / off: 検出しない */
+export type BleedHandling = "suppress" | "flag" | "off";
+
+export interface LevelSample {
+    /** 計測時刻（epoch ms） */
+    time: number;
+    rms: number;
+}
+
+export const DEFAULT_BLEED_HANDLING: BleedHandling = "flag";
+
+const BIN_MS = 50;
+/** マイク側は音響経路の分だけ遅れるため、その範囲でずらして比較する */
+const MAX_LAG_BINS = 8;
+const MIN_BINS = 10;
+const MIN_ENERGY_STDDEV = 0.5;
+
+/** 比較対象とするログの時刻差（チャンク長＋API遅延を考慮） */
+const PAIR_WINDOW_MS = 20_000;
+const MAX_PAIR_CANDIDATES = 20;
+const TEXT_MATCH_THRESHOLD = 0.6;
+const WEAK_TEXT_MATCH_THRESHOLD = 0.3;
+const ECHO_MATCH_THRESHOLD = 0.5;
+/** 文字列を比べずに回り込みの目印を付ける相関（これだけでは隠さない） */
+export const STRONG_ECHO_THRESHOLD = 0.75;
+const MIN_BIGRAMS = 4;
+
+function toEnergyBins(samples: LevelSample[], start: number, end: number): number[] {
+    const binCount = Math.floor((end - start) / BIN_MS);
+    const sums = new Array<number>(binCount).fill(0);
+    const counts = new Array<number>(binCount).fill(0);
+
+    for (const sample of samples) {
+        const index = Math.floor((sample.time - start) / BIN_MS);
+        if (index < 0 || index >= binCount) continue;
+        sums[index] += sample.rms;
+        counts[index] += 1;
+    }
+
+    // 対数エネルギーにしてゲインの違いを吸収する
+    return sums.map((sum, index) => Math.log10(Math.max(1e-4, counts[index] ? sum / counts[index] : 0)) * 20);
+}
+
+function pearson(a: number[], b: number[]): number {
+    const n = Math.min(a.length, b.length);
+    if (n < MIN_BINS) return 0;
+
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < n; i++) {
+        meanA += a[i];
+        meanB += b[i];
+    }
+    meanA /= n;
+    meanB /= n;
+
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (a[i] - meanA) * (b[i] - meanB);
+        varA += (a[i] - meanA) ** 2;
+        varB += (b[i] - meanB) ** 2;
+    }
+
+    const stdA = Math.sqrt(varA / n);
+    const stdB = Math.sqrt(varB / n);
+    // どちらかがほぼ一定（無音）なら相関は意味を持たない
+    if (stdA < MIN_ENERGY_STDDEV || stdB < MIN_ENERGY_STDDEV) return 0;
+    return cov / n / (stdA * stdB);
+}
+
+/**
+ * マイクとシステム音声の包絡線の相関（0〜1）
+ * マイクの音量変化がシステム音声を少し遅らせたものと似ているほど、回り込みの可能性が高い
+ */
+export function computeEchoCorrelation(
+    micSamples: LevelSample[],
+    systemSamples: LevelSample[],
+    start: number,
+    end: number
+): number {
+    const micBins = toEnergyBins(micSamples, start, end);
+    const systemBins = toEnergyBins(systemSamples, start, end);
+
+    let best = 0;
+    for (let lag = 0; lag <= MAX_LAG_BINS; lag++) {
+        const correlation = pearson(micBins.slice(lag), systemBins.slice(0, systemBins.length - lag));
+        best = Math.max(best, correlation);
+    }
+    return best;
+}
+
+function toBigrams(text: string): Set<string> {
+    const normalized = text.normalize("NFKC").toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "");
+    const bigrams = new Set<string>();
+    for (let i = 0; i < normalized.length - 1; i++) {
+        bigrams.add(normalized.slice(i, i + 2));
+    }
+    return bigrams;
+}
+
+/**
+ * 2つの発言の文字列の重なり（0〜1）
+ * Web Speech の1文が Whisper のチャンクの一部に含まれることが多いため、短い方を基準にした重なり率を使う
+ */
+export function textOverlap(a: string, b: string): number {
+    const bigramsA = toBigrams(a);
+    const bigramsB = toBigrams(b);
+    if (bigramsA.size < MIN_BIGRAMS || bigramsB.size < MIN_BIGRAMS) return 0;
+
+    let shared = 0;
+    bigramsA.forEach((bigram) => {
+        if (bigramsB.has(bigram)) shared += 1;
+    });
+    return shared / Math.min(bigramsA.size, bigramsB.size);
+}
+
+function isBleedPair(self: LogItem, other: LogItem): boolean {
+    if (typeof self.timestamp !== "number" || typeof other.timestamp !== "number") return false;
+    if (Math.abs(self.timestamp - other.timestamp) > PAIR_WINDOW_MS) return false;
+
+    const overlap = textOverlap(self.text, other.text);
+    return (
+        overlap >= TEXT_MATCH_THRESHOLD ||
+        (overlap >= WEAK_TEXT_MATCH_THRESHOLD && (self.echoScore ?? 0) >= ECHO_MATCH_THRESHOLD)
+    );
+}
+
+/**
+ * 追加されたログ（logs[index]）と、近い時刻の反対側のログを比較して回り込みに印を付ける
+ * 印を付けるのは常に「自分」側（マイクに回り込んだ方）
+ * 相関が強いだけなら目印だけを付け、文字列の重なりも確認できたら bleedConfirmed を付ける
+ */
+export function markSuspectedBleed(logs: LogItem[], index: number = logs.length - 1): LogItem[] {
+    const added = logs[index];
+    if (!added) return logs;
+
+    // ログの位置 → 文字列の重なりも確認できたか
+    const flagged = new Map<number, boolean>();
+    if (isSelfSpeaker(added.speaker) && !added.suspectedBleed && (added.echoScore ?? 0) >= STRONG_ECHO_THRESHOLD) {
+        flagged.set(index, false);
+    }
+
+    // 再試行で遅れて挿入されたログもあるため、前後の両方を候補にする
+    const firstCandidate = Math.max(0, index - MAX_PAIR_CANDIDATES);
+    const lastCandidate = Math.min(logs.length - 1, index + MAX_PAIR_CANDIDATES);
+    for (let i = firstCandidate; i <= lastCandidate; i++) {
+        const candidate = logs[i];
+        if (i === index || isSelfSpeaker(candidate.speaker) === isSelfSpeaker(added.speaker)) continue;
+
+        const [self, other] = isSelfSpeaker(added.speaker) ? [added, candidate] : [candidate, added];
+        if (!self.bleedConfirmed && isBleedPair(self, other)) {
+            flagged.set(isSelfSpeaker(added.speaker) ? index : i, true);
+        }
+    }
+
+    if (flagged.size === 0) return logs;
+    return logs.map((log, i) => {
+        const confirmed = flagged.get(i);
+        if (confirmed === undefined) return log;
+        return { ...log, suspectedBleed: true, ...(confirmed ? { bleedConfirmed: true } : {}) };
+    });
+}
+
+/** 設定に応じて、文字列の重なりでも回り込みと確認できたログを取り除く */
+export function filterSuppressedLogs(logs: LogItem[], handling: BleedHandling): LogItem[] {
+    if (handling !== "suppress" || !logs.some((log) => log.bleedConfirmed)) return logs;
+    return logs.filter((log) => !log.bleedConfirmed);
+}
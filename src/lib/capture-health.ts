@@ -0,0 +1,106 @@
+/**
+ * キャプチャ状態の診断
+ * - レベル計測ノードのフレームからメーター表示用のレベルを算出する
+ * - 長時間の無音・音割れ・信号の来ないトラックを検出して警告にする
+ */
+
+import type { AudioLevelFrame } from "@/lib/audio-level-meter";
+
+export type CaptureChannel = "mic" | "system";
+
+export type AudioHealthIssue = "silence" | "clipping" | "dead-track";
+
+export interface AudioHealthWarning {
+    channel: CaptureChannel;
+    issue: AudioHealthIssue;
+    message: string;
+}
+
+const SILENCE_RMS = 0.003;
+const SILENCE_WARNING_MS = 20_000;
+const DEAD_TRACK_MS = 3000;
+const CLIP_PEAK = 0.99;
+const CLIP_FRAMES_THRESHOLD = 3;
+const CLIP_WINDOW_MS = 2000;
+const CLIP_HOLD_MS = 3000;
+const METER_FLOOR_DB = -60;
+const METER_DECAY = 0.85;
+
+const WARNING_MESSAGES: Record<CaptureChannel, Record<AudioHealthIssue, string>> = {
+    mic: {
+        silence: "マイクの音声が20秒以上無音です。ミュートや入力デバイスを確認してください。",
+        clipping: "マイクの音声が音割れしています。マイクから少し離れるか、入力音量を下げてください。",
+        "dead-track": "マイクから信号が届いていません。入力デバイスの接続を確認してください。",
+    },
+    system: {
+        silence: "相手の音声が20秒以上無音です。共有したタブやアプリで音声が再生されているか確認してください。",
+        clipping: "相手の音声が音割れしています。会議アプリの音量か、設定の増幅率を下げてください。",
+        "dead-track": "共有した音声から信号が届いていません。画面共有をやり直し、「音声を共有」を有効にしてください。",
+    },
+};
+
+/** 1チャンネル分のレベルと健全性を追跡する */
+export class ChannelHealthMonitor {
+    private level = 0;
+    private silentMs = 0;
+    private zeroMs = 0;
+    private clipTimes: number[] = [];
+    private lastClipWarningAt = 0;
+
+    constructor(private readonly channel: CaptureChannel) { }
+
+    /** フレームを入力 */
+    push(frame: AudioLevelFrame, now: number = Date.now()): void {
+        // メーターは dB 表示を 0〜1 に正規化し、減衰をつけて見やすくする
+        const db = frame.rms > 0 ? 20 * Math.log10(frame.rms) : METER_FLOOR_DB;
+        const normalized = Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+        this.level = Math.max(normalized, this.level * METER_DECAY);
+
+        this.zeroMs = frame.peak === 0 ? this.zeroMs + frame.durationMs : 0;
+        this.silentMs = frame.rms < SILENCE_RMS ? this.silentMs + frame.durationMs : 0;
+
+        if (frame.peak >= CLIP_PEAK) {
+            this.clipTimes.push(now);
+        }
+        this.clipTimes = this.clipTimes.filter((time) => now - time <= CLIP_WINDOW_MS);
+        if (this.clipTimes.length >= CLIP_FRAMES_THRESHOLD) {
+            this.lastClipWarningAt = now;
+        }
+    }
+
+    /** メーター表示用のレベル（0〜1） */
+    getLevel(): number {
+        return this.level;
+    }
+
+    /** 直近に音割れが続いているか */
+    isClipping(now: number = Date.now()): boolean {
+        return this.lastClipWarningAt > 0 && now - this.lastClipWarningAt <= CLIP_HOLD_MS;
+    }
+
+    /** 現在の警告一覧。track は終了・ミュート状態の確認に使う */
+    getWarnings(track: MediaStreamTrack | null, now: number = Date.now()): AudioHealthWarning[] {
+        const messages = WARNING_MESSAGES[this.channel];
+        const warnings: AudioHealthWarning[] = [];
+        const trackDead = track !== null && (track.readyState === "ended" || track.muted);
+
+        if (trackDead || this.zeroMs >= DEAD_TRACK_MS) {
+            warnings.push({ channel: this.channel, issue: "dead-track", message: messages["dead-track"] });
+        } else if (this.silentMs >= SILENCE_WARNING_MS) {
+            warnings.push({ channel: this.channel, issue: "silence", message: messages.silence });
+        }
+        if (this.isClipping(now)) {
+            warnings.push({ channel: this.channel, issue: "clipping", message: messages.clipping });
+        }
+        return warnings;
+    }
+
+    /** 計測値をリセット */
+    reset(): void {
+        this.level = 0;
+        this.silentMs = 0;
+        this.zeroMs = 0;
+        this.clipTimes = [];
+        this.lastClipWarningAt = 0;
+    }
+}
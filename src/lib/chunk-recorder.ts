@@ -0,0 +1,217 @@
+/**
+ * 発話チャンク録音
+ * - 2つの MediaRecorder を交互に使って、途切れなく、かつヘッダー付きの完全なファイルを生成する
+ * - レベル計測フレームを VAD に渡し、発話の切れ目でレコーダーを切り替える
+ * - 無音と判定したチャンクは STT に送らない
+ * - CH2（システム音声）と、Whisper で文字起こしする場合の CH1（マイク）で使う
+ * - 途中経過を有効にすると、録音中のチャンクをその時点までの音声として数秒ごとに渡す
+ *   （timeslice で受け取った断片は先頭にヘッダーがあるため、つなげればそのままデコードできる）
+ */
+
+import type { SystemAudioChunk } from "@/lib/audio-capture";
+import type { AudioLevelFrame } from "@/lib/audio-level-meter";
+import { VoiceActivityChunker } from "@/lib/voice-activity";
+
+/** レベル計測が使えない場合のフォールバック用の固定チャンク長 */
+const FALLBACK_CHUNK_MS = 8000;
+const CHUNK_MIME_TYPE = "audio/webm;codecs=opus";
+/** 途中経過を有効にした時に、レコーダーからデータを受け取る間隔 */
+const PARTIAL_TIMESLICE_MS = 1000;
+/** 途中経過を渡す間隔 */
+const PARTIAL_INTERVAL_MS = 2500;
+/** これより短いチャンクは途中経過を渡さない */
+const MIN_PARTIAL_MS = 1500;
+
+function createMediaRecorder(stream: MediaStream): MediaRecorder {
+    try {
+        return new MediaRecorder(stream, { mimeType: CHUNK_MIME_TYPE });
+    } catch {
+        return new MediaRecorder(stream);
+    }
+}
+
+export class VoiceChunkRecorder {
+    private recorders: MediaRecorder[] = [];
+    private recorderChunks: Blob[][] = [[], []];
+    private recorderStartedAt: number[] = [0, 0];
+    private recorderShouldEmit: boolean[] = [true, true];
+    private activeRecorderIndex = 0;
+    private vad = new VoiceActivityChunker();
+    private partialsEnabled = false;
+    private lastPartialAt = 0;
+
+    constructor(
+        private readonly onChunk: (chunk: SystemAudioChunk) => void,
+        /** 録音中のチャンクの途中経過（setPartialsEnabled(true) の時のみ） */
+        private readonly onPartial?: (chunk: SystemAudioChunk) => void
+    ) { }
+
+    /** 途中経過を渡すか（録音中に切り替えた場合は次のチャンクから反映） */
+    setPartialsEnabled(enabled: boolean): void {
+        this.partialsEnabled = enabled;
+    }
+
+    /** 録音中か */
+    isRecording(): boolean {
+        return this.recorders.length > 0;
+    }
+
+    /** 直近のフレームが発話中か */
+    isSpeaking(): boolean {
+        return this.vad.isSpeaking();
+    }
+
+    /**
+     * ダブルバッファリング録音を開始
+     * チャンクの区切りは push() で渡すレベルで決める
+     */
+    start(stream: MediaStream): void {
+        if (this.isRecording()) return;
+
+        const audioStream = new MediaStream(stream.getAudioTracks());
+
+        // レコーダー初期化ヘルパー
+        const createRecorder = (index: number) => {
+            const recorder = createMediaRecorder(audioStream);
+
+            recorder.ondataavailable = (e) => {
+                if (e.data.size > 0) {
+                    this.recorderChunks[index].push(e.data);
+                }
+            };
+
+            recorder.onstop = () => {
+                const blob = new Blob(this.recorderChunks[index], { type: CHUNK_MIME_TYPE });
+                this.recorderChunks[index] = []; // クリア
+
+                // 無音と判定されたチャンクは STT に送らない
+                if (blob.size > 0 && this.recorderShouldEmit[index]) {
+                    this.onChunk({
+                        blob,
+                        timestamp: this.recorderStartedAt[index],
+                        endedAt: Date.now(),
+                    });
+                }
+            };
+
+            return recorder;
+        };
+
+        this.recorders = [createRecorder(0), createRecorder(1)];
+        this.activeRecorderIndex = 0;
+        this.vad.reset();
+
+        // 最初のレコーダー開始
+        this.startRecorder(0);
+    }
+
+    /**
+     * 簡易録音（レベル計測が使えない場合のフォールバック）
+     * timesliceを使うため、ヘッダー欠落のリスクがあるが、最低限動作させる
+     */
+    startSimple(stream: MediaStream): void {
+        if (this.isRecording()) return;
+
+        const recorder = createMediaRecorder(new MediaStream(stream.getAudioTracks()));
+
+        let chunkStartedAt = Date.now();
+        recorder.ondataavailable = (event) => {
+            const timestamp = chunkStartedAt;
+            chunkStartedAt = Date.now();
+            if (event.data.size > 0) {
+                this.onChunk({
+                    blob: event.data,
+                    timestamp,
+                    endedAt: chunkStartedAt,
+                });
+            }
+        };
+
+        recorder.start(FALLBACK_CHUNK_MS);
+        this.recorders = [recorder]; // 管理配列に入れておく（stop時用）
+    }
+
+    /** レベルを VAD に渡し、発話の切れ目でレコーダーを切り替える */
+    push(frame: AudioLevelFrame): void {
+        if (this.recorders.length < 2) return;
+
+        const boundary = this.vad.push(frame);
+        if (boundary !== "none") {
+            this.switchRecorder(boundary === "emit");
+            return;
+        }
+        this.emitPartial();
+    }
+
+    /** 録音を停止（録音中のチャンクは発話があれば確定して送る） */
+    stop(): void {
+        if (this.recorders.length === 2) {
+            this.recorderShouldEmit[this.activeRecorderIndex] = this.vad.hasVoice();
+        }
+        this.recorders.forEach((recorder) => {
+            if (recorder.state !== "inactive") {
+                recorder.stop();
+            }
+        });
+        this.recorders = [];
+        this.recorderChunks = [[], []];
+    }
+
+    private startRecorder(index: number): void {
+        this.recorderStartedAt[index] = Date.now();
+        this.lastPartialAt = this.recorderStartedAt[index];
+        if (this.partialsEnabled && this.onPartial) {
+            this.recorders[index].start(PARTIAL_TIMESLICE_MS);
+        } else {
+            this.recorders[index].start();
+        }
+    }
+
+    /** 発話中のチャンクを、ここまでの音声として途中経過に渡す */
+    private emitPartial(): void {
+        if (!this.partialsEnabled || !this.onPartial || !this.vad.hasVoice()) return;
+
+        const index = this.activeRecorderIndex;
+        const now = Date.now();
+        const startedAt = this.recorderStartedAt[index];
+        if (
+            now - startedAt < MIN_PARTIAL_MS ||
+            now - this.lastPartialAt < PARTIAL_INTERVAL_MS ||
+            this.recorderChunks[index].length === 0
+        ) {
+            return;
+        }
+
+        this.lastPartialAt = now;
+        this.onPartial({
+            blob: new Blob(this.recorderChunks[index], { type: CHUNK_MIME_TYPE }),
+            timestamp: startedAt,
+            endedAt: now,
+        });
+    }
+
+    /**
+     * レコーダーを切り替えて現在のチャンクを確定する
+     * emit が false のチャンク（無音）は破棄される
+     */
+    private switchRecorder(emit: boolean): void {
+        const nextIndex = (this.activeRecorderIndex + 1) % 2;
+        const currentIndex = this.activeRecorderIndex;
+
+        // 次のレコーダーを開始してから、今のレコーダーを止める（オーバーラップではないが、隙間を最小限に）
+        // ※ MediaStreamは共有されているので、同時にstartして良い
+        // しかし、完全にオーバーラップさせると重複録音になるので、
+        // 「次を開始」→「即座に前を停止」とする。
+
+        if (this.recorders[nextIndex].state === "inactive") {
+            this.startRecorder(nextIndex);
+        }
+
+        if (this.recorders[currentIndex].state !== "inactive") {
+            this.recorderShouldEmit[currentIndex] = emit;
+            this.recorders[currentIndex].stop();
+        }
+
+        this.activeRecorderIndex = nextIndex;
+    }
+}
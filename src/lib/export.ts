@@ -1,20 +1,47 @@
 import type { InterviewAnalysis, LogItem } from "@/hooks/useInterviewStore";
+import {
+  describeParticipant,
+  EMPTY_ROSTER,
+  getSpeakerLabel,
+  type ParticipantRoster,
+} from "@/lib/speakers";
+
+/** click() 直後に破棄すると保存が始まらないブラウザがあるため、URL の破棄を遅らせる時間 */
+const DOWNLOAD_URL_REVOKE_DELAY_MS = 60_000;
+
+/** Blob をファイルとして保存させる */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_REVOKE_DELAY_MS);
+}
 
 export function downloadAsWord(
   logs: LogItem[],
   freeMemo: string,
-  interviewAnalysis?: InterviewAnalysis | null
+  interviewAnalysis?: InterviewAnalysis | null,
+  roster: ParticipantRoster = EMPTY_ROSTER
 ): void {
   const dateStr = new Date().toLocaleDateString("ja-JP");
   const fileDate = dateStr.replace(/\//g, "-");
 
   const logRows = logs
     .map((log) => {
-      const speaker = log.speaker === "self" ? "自分" : "相手";
+      const speaker = escapeHtml(getSpeakerLabel(log.speaker, roster));
       return `<p><b>[${log.time}] ${speaker}:</b> ${escapeHtml(log.text)}</p>`;
     })
     .join("");
 
+  const participantsHtml =
+    roster.participants.length > 0
+      ? `<h2>参加者</h2><ul>${roster.participants
+          .map((participant) => `<li>${escapeHtml(describeParticipant(participant))}</li>`)
+          .join("")}</ul>`
+      : "";
+
   const analysisHtml = interviewAnalysis
     ? `
       ${buildBasicInfoHtml(interviewAnalysis)}
@@ -36,6 +63,7 @@ export function downloadAsWord(
     <head><meta charset='utf-8'><title>議事録</title></head>
     <body>
       <h1>議事録 (${dateStr})</h1>
+      ${participantsHtml}
       <h2>メモ</h2>
       <p>${escapeHtml(freeMemo).replace(/\n/g, "<br>")}</p>
       ${analysisHtml}
@@ -44,29 +72,27 @@ export function downloadAsWord(
     </body></html>`;
 
   const blob = new Blob(["\ufeff", content], { type: "application/msword" });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = `gijiroku_${fileDate}.doc`;
-  link.click();
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, `gijiroku_${fileDate}.doc`);
 }
 
-export function downloadAsText(logs: LogItem[]): void {
+export function downloadAsText(logs: LogItem[], roster: ParticipantRoster = EMPTY_ROSTER): void {
   let text = `議事録ログ ${new Date().toLocaleString("ja-JP")}\n\n`;
 
+  if (roster.participants.length > 0) {
+    text += "参加者:\n";
+    roster.participants.forEach((participant) => {
+      text += `- ${describeParticipant(participant)}\n`;
+    });
+    text += "\n";
+  }
+
   logs.forEach((log) => {
-    const speaker = log.speaker === "self" ? "自分" : "相手";
+    const speaker = getSpeakerLabel(log.speaker, roster);
     text += `[${log.time}] ${speaker}: ${log.text}\n`;
   });
 
   const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = "gijiroku_log.txt";
-  link.click();
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, "gijiroku_log.txt");
 }
 
 function escapeHtml(value: string): string {
@@ -0,0 +1,74 @@
+/**
+ * システム音声の自動ゲイン調整（AGC）
+ * - 発話中のレベルが目標の音量に近づくよう、増幅率をゆっくり追従させる
+ * - ピークが上限に達したら即座に下げ、音割れを防ぐ
+ * - 設定で手動の固定倍率に切り替えられる
+ */
+
+import type { AudioLevelFrame } from "@/lib/audio-level-meter";
+
+export type SystemGainMode = "auto" | "manual";
+
+export interface SystemGainSetting {
+    mode: SystemGainMode;
+    /** 手動モード時の増幅率（倍） */
+    manualGain: number;
+}
+
+export const MIN_SYSTEM_GAIN = 0.5;
+export const MAX_SYSTEM_GAIN = 20;
+export const DEFAULT_SYSTEM_GAIN_SETTING: SystemGainSetting = {
+    mode: "auto",
+    manualGain: 5,
+};
+
+/** 自動調整の初期値（従来の固定5倍より控えめに始める） */
+const INITIAL_AUTO_GAIN = 3;
+/** 目標とする発話中の RMS（約 -20 dBFS） */
+const TARGET_RMS = 0.1;
+const CLIP_PEAK = 0.98;
+const CLIP_REDUCTION = 0.85;
+/** 1フレームあたりの追従率（対数領域） */
+const ADAPT_RATE = 0.02;
+/** この割合以上変わった時だけ変更を報告する */
+const REPORT_THRESHOLD = 0.02;
+
+export function clampSystemGain(gain: number): number {
+    return Math.min(MAX_SYSTEM_GAIN, Math.max(MIN_SYSTEM_GAIN, gain));
+}
+
+export class AutomaticGainController {
+    private gain = INITIAL_AUTO_GAIN;
+    private reportedGain = INITIAL_AUTO_GAIN;
+
+    /** 現在の増幅率 */
+    getGain(): number {
+        return this.gain;
+    }
+
+    /**
+     * 増幅後・リミッター前のフレームを入力し、増幅率を更新する
+     * 報告すべき変化があった場合のみ新しい増幅率を返す
+     */
+    process(frame: AudioLevelFrame, isSpeech: boolean): number | null {
+        if (frame.peak >= CLIP_PEAK) {
+            this.gain = clampSystemGain(this.gain * CLIP_REDUCTION);
+        } else if (isSpeech && frame.rms > 0) {
+            const desired = clampSystemGain((this.gain * TARGET_RMS) / frame.rms);
+            const logGain = Math.log(this.gain) + (Math.log(desired) - Math.log(this.gain)) * ADAPT_RATE;
+            this.gain = clampSystemGain(Math.exp(logGain));
+        }
+
+        if (Math.abs(this.gain - this.reportedGain) / this.reportedGain < REPORT_THRESHOLD) {
+            return null;
+        }
+        this.reportedGain = this.gain;
+        return this.gain;
+    }
+
+    /** 初期状態に戻す */
+    reset(): void {
+        this.gain = INITIAL_AUTO_GAIN;
+        this.reportedGain = INITIAL_AUTO_GAIN;
+    }
+}
@@ -1,12 +1,14 @@
-const WHISPER_HALLUCINATIONS = [
-  "ご視聴ありがとうございました",
-  "チャンネル登録",
-  "高評価",
-  "Thanks for watching",
-  "Please subscribe",
-  "おやすみなさい",
-  "最後までご視聴",
-];
+import type { RecognitionLanguage } from "@/lib/recognition-language";
+import { getBlockingBudget, recordGroqUsage } from "@/lib/usage-ledger";
+import {
+  requestWhisperTranscription,
+  TranscriptionError,
+  type TranscriptionResult,
+  type WhisperTuning,
+} from "@/lib/whisper-api";
+
+const GROQ_BASE_URL = "https://api.groq.com/openai/v1";
+const GROQ_WHISPER_MODEL = "whisper-large-v3";
 
 export async function testGroqConnection(
   groqApiKey: string
@@ -16,7 +18,7 @@ export async function testGroqConnection(
   }
 
   try {
-    const response = await fetch("https://api.groq.com/openai/v1/models", {
+    const response = await fetch(`${GROQ_BASE_URL}/models`, {
       headers: {
         Authorization: `Bearer ${groqApiKey}`,
       },
@@ -39,52 +41,37 @@ export async function testGroqConnection(
   }
 }
 
+/**
+ * Groq Whisper で文字起こし
+ * APIキー未設定・無音・ハルシネーションは null、通信や API のエラーは TranscriptionError を投げる
+ * 使用量の上限に達している場合は送らずに TranscriptionError を投げる（上限を変えてから手動で再試行する）
+ * partial が true なら途中経過の文字起こしとして、使用量を内訳にも数える
+ */
 export async function transcribeWithGroq(
   audioBlob: Blob,
-  groqApiKey: string
-): Promise<string | null> {
+  groqApiKey: string,
+  language: RecognitionLanguage = "ja",
+  tuning: WhisperTuning = {},
+  partial = false
+): Promise<TranscriptionResult | null> {
   if (!groqApiKey) {
     console.warn("Groq APIキーが未設定のため、相手側音声の文字起こしをスキップします。");
     return null;
   }
 
-  try {
-    const formData = new FormData();
-    formData.append("file", audioBlob, "audio.webm");
-    formData.append("model", "whisper-large-v3");
-    formData.append("language", "ja");
-    formData.append("response_format", "json");
-
-    const response = await fetch(
-      "https://api.groq.com/openai/v1/audio/transcriptions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${groqApiKey}`,
-        },
-        body: formData,
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Groq API error:", response.status, errorText);
-      return null;
-    }
-
-    const data = await response.json();
-    const text = data.text?.trim();
-
-    if (!text) return null;
-
-    if (WHISPER_HALLUCINATIONS.some((phrase) => text.includes(phrase))) {
-      console.log("Whisper hallucination filtered:", text);
-      return null;
-    }
-
-    return text;
-  } catch (error) {
-    console.error("Groq transcription error:", error);
-    return null;
+  const blockingBudget = getBlockingBudget("groq");
+  if (blockingBudget) {
+    throw new TranscriptionError(blockingBudget.message, { retryable: false });
   }
+
+  return requestWhisperTranscription(audioBlob, {
+    baseUrl: GROQ_BASE_URL,
+    apiKey: groqApiKey,
+    model: GROQ_WHISPER_MODEL,
+    language,
+    ...tuning,
+    serviceName: "Groq API",
+    partial,
+    onRequestSent: (seconds) => recordGroqUsage(seconds, partial),
+  });
 }
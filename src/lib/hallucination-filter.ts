@@ -0,0 +1,242 @@
+/**
+ * Whisper のハルシネーション除去
+ * - verbose_json の区間（segment）ごとに、無音らしさ・確信度・圧縮率・同じ語の繰り返しで判定する
+ * - 定型句（「ご視聴ありがとうございました」など）は、区間がほぼその句だけの時に限って除く
+ *   （本当に「高評価」と話した発言まで消さないため）
+ * - 除いた区間は console ではなく一覧に残し、設定画面で確認できるようにする
+ */
+
+/** verbose_json の segments の要素（使うものだけ） */
+export interface WhisperSegment {
+    text: string;
+    start?: number;
+    end?: number;
+    avg_logprob?: number;
+    no_speech_prob?: number;
+    compression_ratio?: number;
+}
+
+export type FilterReason = "no-speech" | "low-confidence" | "compression" | "repetition" | "phrase";
+
+export interface FilteredSegment {
+    id: number;
+    text: string;
+    reason: FilterReason;
+    /** 判定に使った値など */
+    detail: string;
+    /** 除いた時刻（epoch ms） */
+    filteredAt: number;
+    serviceName: string;
+}
+
+export interface FilteredTranscription {
+    text: string;
+    /** 残った最初の区間の開始位置（音声の先頭からの ms）。区間がない場合は未設定 */
+    startMs?: number;
+    /** 残った最後の区間の終了位置（ms） */
+    endMs?: number;
+}
+
+export const FILTER_REASON_LABELS: Record<FilterReason, string> = {
+    "no-speech": "無音",
+    "low-confidence": "低確信度",
+    compression: "圧縮率",
+    repetition: "繰り返し",
+    phrase: "定型句",
+};
+
+export const DEFAULT_HALLUCINATION_PHRASES = [
+    "ご視聴ありがとうございました",
+    "チャンネル登録",
+    "高評価",
+    "Thanks for watching",
+    "Please subscribe",
+    "おやすみなさい",
+    "最後までご視聴",
+].join("\n");
+
+/** Whisper 本体と同じ基準: 無音の確率が高く、かつ確信度も低い区間は無音とみなす */
+const NO_SPEECH_PROB_THRESHOLD = 0.6;
+const NO_SPEECH_LOGPROB_THRESHOLD = -1.0;
+/** 確信度に関わらず無音とみなす確率 */
+const CERTAIN_NO_SPEECH_PROB = 0.9;
+/**
+ * 無音の確率が中程度でも、確信度がさらに低ければ除く
+ * 名前・専門用語・小声の発言は確信度だけが低くなりやすいため、確信度だけでは除かない
+ */
+const LOW_CONFIDENCE_LOGPROB = -1.2;
+const LOW_CONFIDENCE_NO_SPEECH_PROB = 0.3;
+/** gzip 圧縮率がこれを超える区間は繰り返しのループ */
+const COMPRESSION_RATIO_THRESHOLD = 2.4;
+/** 同じ語（2〜15文字）がこの回数以上続いたら繰り返しとみなす */
+const MIN_REPEATS = 4;
+const REPEATED_NGRAM = new RegExp(`(.{2,15}?)\\1{${MIN_REPEATS - 1},}`, "u");
+/** 繰り返し部分が区間のこの割合以上を占めたら除く */
+const REPETITION_COVERAGE = 0.5;
+/**
+ * 繰り返し部分がこの文字数に満たなければ除かない
+ * 「そうそうそうそう」「はいはいはいはい」のような短い相づちの繰り返しは実際の発言のため
+ */
+const MIN_REPETITION_LENGTH = 16;
+/** 定型句が区間のこの割合以上を占めたら除く */
+const PHRASE_COVERAGE = 0.8;
+const MAX_FILTERED_SEGMENTS = 200;
+
+let filteredSegments: FilteredSegment[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+/** 定型句を1行ずつ取り出す */
+export function parseHallucinationPhrases(text: string): string[] {
+    return text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#"));
+}
+
+/** 比較用に句読点・空白を除き、小文字にする */
+function normalizeForMatch(text: string): string {
+    return text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "");
+}
+
+function findRepetition(text: string): string | null {
+    const compact = text.replace(/\s+/g, "");
+    const match = compact.match(REPEATED_NGRAM);
+    if (!match || match[0].length < MIN_REPETITION_LENGTH || match[0].length < compact.length * REPETITION_COVERAGE) {
+        return null;
+    }
+    return match[1];
+}
+
+function findPhrase(text: string, phrases: string[]): string | null {
+    const normalized = normalizeForMatch(text);
+    if (!normalized) return null;
+
+    for (const phrase of phrases) {
+        const target = normalizeForMatch(phrase);
+        if (target && normalized.includes(target) && target.length >= normalized.length * PHRASE_COVERAGE) {
+            return phrase;
+        }
+    }
+    return null;
+}
+
+/** 区間を除く理由（残す場合は null） */
+function judgeSegment(
+    segment: WhisperSegment,
+    phrases: string[]
+): { reason: FilterReason; detail: string } | null {
+    const noSpeech = segment.no_speech_prob;
+    const logprob = segment.avg_logprob;
+
+    if (typeof noSpeech === "number") {
+        if (noSpeech >= CERTAIN_NO_SPEECH_PROB) {
+            return { reason: "no-speech", detail: `no_speech_prob=${noSpeech.toFixed(2)}` };
+        }
+        if (noSpeech > NO_SPEECH_PROB_THRESHOLD && typeof logprob === "number" && logprob < NO_SPEECH_LOGPROB_THRESHOLD) {
+            return {
+                reason: "no-speech",
+                detail: `no_speech_prob=${noSpeech.toFixed(2)}, avg_logprob=${logprob.toFixed(2)}`,
+            };
+        }
+    }
+    if (
+        typeof logprob === "number" &&
+        logprob < LOW_CONFIDENCE_LOGPROB &&
+        typeof noSpeech === "number" &&
+        noSpeech >= LOW_CONFIDENCE_NO_SPEECH_PROB
+    ) {
+        return {
+            reason: "low-confidence",
+            detail: `avg_logprob=${logprob.toFixed(2)}, no_speech_prob=${noSpeech.toFixed(2)}`,
+        };
+    }
+    if (typeof segment.compression_ratio === "number" && segment.compression_ratio > COMPRESSION_RATIO_THRESHOLD) {
+        return { reason: "compression", detail: `compression_ratio=${segment.compression_ratio.toFixed(2)}` };
+    }
+
+    const repeated = findRepetition(segment.text);
+    if (repeated) {
+        return { reason: "repetition", detail: `「${repeated}」の繰り返し` };
+    }
+
+    const phrase = findPhrase(segment.text, phrases);
+    if (phrase) {
+        return { reason: "phrase", detail: `「${phrase}」` };
+    }
+    return null;
+}
+
+function recordFiltered(text: string, judgement: { reason: FilterReason; detail: string }, serviceName: string) {
+    filteredSegments = [
+        { id: nextId++, text, ...judgement, filteredAt: Date.now(), serviceName },
+        ...filteredSegments,
+    ].slice(0, MAX_FILTERED_SEGMENTS);
+    listeners.forEach((listener) => listener());
+}
+
+function toMs(seconds: number | undefined): number | undefined {
+    return typeof seconds === "number" && Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+}
+
+/**
+ * 区間ごとに判定し、残った区間をつなげた文字列と、その発話範囲を返す
+ * segments を返さないサーバーでは、全体を1区間として定型句と繰り返しだけで判定する
+ * recordsFiltered が false なら除いた区間を一覧に載せない（途中経過は同じ音声を何度も送るため）
+ */
+export function filterTranscriptionSegments(
+    text: string,
+    segments: WhisperSegment[] | undefined,
+    phrases: string[],
+    serviceName: string,
+    recordsFiltered = true
+): FilteredTranscription {
+    const targets: WhisperSegment[] = segments && segments.length > 0 ? segments : [{ text }];
+    const kept: WhisperSegment[] = [];
+
+    for (const segment of targets) {
+        const segmentText = segment.text.trim();
+        if (!segmentText) continue;
+
+        const judgement = judgeSegment(segment, phrases);
+        if (judgement) {
+            if (recordsFiltered) {
+                recordFiltered(segmentText, judgement, serviceName);
+            }
+        } else {
+            kept.push(segment);
+        }
+    }
+
+    // 日本語は区間の間に空白を入れないが、英語などは単語がつながらないよう空白を入れる
+    const joined = kept.reduce((result, segment) => {
+        const segmentText = segment.text.trim();
+        if (!result) return segmentText;
+        return /[\x21-\x7e]$/.test(result) && /^[\x21-\x7e]/.test(segmentText)
+            ? `${result} ${segmentText}`
+            : `${result}${segmentText}`;
+    }, "");
+
+    return {
+        text: joined,
+        startMs: toMs(kept[0]?.start),
+        endMs: toMs(kept[kept.length - 1]?.end),
+    };
+}
+
+/** 除いた区間の一覧（新しい順） */
+export function getFilteredSegments(): FilteredSegment[] {
+    return filteredSegments;
+}
+
+export function subscribeFilteredSegments(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function clearFilteredSegments(): void {
+    filteredSegments = [];
+    listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,48 @@
+/**
+ * IndexedDB の薄いラッパー
+ * 音声アーカイブや再試行バックログなど、localStorage に載せられない大きなデータの保存に使う
+ */
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/** データベースを開く（同じ名前では接続を使い回す） */
+export function openDatabase(
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+    let connection = connections.get(name);
+    if (!connection) {
+        connection = new Promise((resolve, reject) => {
+            const request = indexedDB.open(name, version);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                connections.delete(name);
+                reject(request.error);
+            };
+        });
+        connections.set(name, connection);
+    }
+    return connection;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/** ブラウザが IndexedDB を使えるか */
+export function isIndexedDbSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+}
@@ -0,0 +1,205 @@
+/**
+ * 書類解析（InterviewAnalysis）の応答スキーマと検証
+ * - 同じ定義から構造化出力の JSON Schema を作り、返ってきた JSON の検証にも使う
+ * - 検証では、足りない項目と型の違う項目を画面に出せる名前で返す
+ * - ストリームの途中など、そろっていない結果も表示できる形に整える
+ */
+
+import type { CandidateBasicInfo, InterviewAnalysis } from "@/hooks/useInterviewStore";
+import type { JsonSchema } from "@/lib/llm-api";
+
+type SchemaNode =
+  | { type: "STRING"; label: string; description: string }
+  | { type: "ARRAY"; label: string; description: string; items: SchemaNode; minItems?: number }
+  | {
+      type: "OBJECT";
+      label: string;
+      description?: string;
+      properties: Record<string, SchemaNode>;
+    };
+
+export interface SchemaValidationResult<T> {
+  value: T | null;
+  /** 見つからなかった項目（画面表示用の名前） */
+  missingFields: string[];
+  /** 修正依頼に使う問題の一覧（JSONのパス付き） */
+  errors: string[];
+}
+
+/** 検証に通らなかった応答。missingFields に足りなかった項目の名前を持つ */
+export class AnalysisValidationError extends Error {
+  readonly missingFields: string[];
+
+  constructor(message: string, missingFields: string[]) {
+    super(message);
+    this.name = "AnalysisValidationError";
+    this.missingFields = missingFields;
+  }
+}
+
+function basicInfoField(label: string, description: string): SchemaNode {
+  return { type: "STRING", label, description: `${description}見つからない場合は空文字。` };
+}
+
+const BASIC_INFO_SCHEMA: SchemaNode & { type: "OBJECT" } = {
+  type: "OBJECT",
+  label: "基本情報",
+  description: "書類に明記されている候補者の基本情報。推測で補完しない。",
+  properties: {
+    name: basicInfoField("氏名", "氏名。"),
+    kana: basicInfoField("ふりがな", "ふりがな・フリガナ。"),
+    schoolName: basicInfoField("学校名", "学校名・大学名・専門学校名・高校名。最終学歴を優先。"),
+    facultyDepartment: basicInfoField("学部・学科", "学部・学科・専攻。"),
+    graduationYear: basicInfoField("卒業年", "卒業・修了・在学期間。"),
+    currentCompany: basicInfoField("現職の会社", "現職または直近の会社名。"),
+    latestRole: basicInfoField("職種", "現職または直近の職種・役割。"),
+    email: basicInfoField("メールアドレス", "メールアドレス。"),
+    phone: basicInfoField("電話番号", "電話番号。"),
+    location: basicInfoField("住所", "住所・居住地。"),
+  } satisfies Record<keyof CandidateBasicInfo, SchemaNode>,
+};
+
+export const INTERVIEW_ANALYSIS_SCHEMA: SchemaNode = {
+  type: "OBJECT",
+  label: "解析結果",
+  properties: {
+    basicInfo: BASIC_INFO_SCHEMA,
+    resumeSummary: {
+      type: "STRING",
+      label: "履歴書の要約",
+      description: "履歴書の要約。3〜5項目の箇条書き風の短い文章。",
+    },
+    workHistorySummary: {
+      type: "STRING",
+      label: "職務経歴書の要約",
+      description: "職務経歴書の要約。経験、役割、実績、技術/業務領域が分かる短い文章。",
+    },
+    suggestedQuestions: {
+      type: "ARRAY",
+      label: "質問候補",
+      description: "面接で聞くべき具体的な質問候補（5件程度）。",
+      items: { type: "STRING", label: "質問候補", description: "具体的な質問。" },
+      minItems: 1,
+    },
+  },
+};
+
+/**
+ * 構造化出力に渡す JSON Schema（label を除き、すべての項目を必須にする）
+ * minItems は対応していないサービスがあるため送らず、検証でだけ確かめる
+ */
+export function toJsonSchema(node: SchemaNode = INTERVIEW_ANALYSIS_SCHEMA): JsonSchema {
+  switch (node.type) {
+    case "STRING":
+      return { type: "string", description: node.description };
+    case "ARRAY":
+      return { type: "array", description: node.description, items: toJsonSchema(node.items) };
+    case "OBJECT":
+      return {
+        type: "object",
+        ...(node.description ? { description: node.description } : {}),
+        properties: Object.fromEntries(
+          Object.entries(node.properties).map(([key, child]) => [key, toJsonSchema(child)])
+        ),
+        required: Object.keys(node.properties),
+        additionalProperties: false,
+      };
+  }
+}
+
+function validateNode(
+  node: SchemaNode,
+  value: unknown,
+  path: string,
+  result: { missingFields: string[]; errors: string[] }
+) {
+  const name = path || "応答全体";
+  if (value === undefined || value === null) {
+    result.missingFields.push(node.label);
+    result.errors.push(`${name} がありません`);
+    return;
+  }
+
+  switch (node.type) {
+    case "STRING":
+      if (typeof value !== "string") {
+        result.errors.push(`${name} は文字列にしてください`);
+      }
+      return;
+    case "ARRAY":
+      if (!Array.isArray(value)) {
+        result.errors.push(`${name} は配列にしてください`);
+        return;
+      }
+      if (node.minItems && value.length < node.minItems) {
+        result.missingFields.push(node.label);
+        result.errors.push(`${name} が空です（${node.minItems}件以上必要です）`);
+      }
+      value.forEach((item, index) => validateNode(node.items, item, `${path}[${index}]`, result));
+      return;
+    case "OBJECT":
+      if (typeof value !== "object" || Array.isArray(value)) {
+        result.errors.push(`${name} はオブジェクトにしてください`);
+        return;
+      }
+      for (const [key, child] of Object.entries(node.properties)) {
+        validateNode(child, (value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, result);
+      }
+      return;
+  }
+}
+
+/** 応答の JSON を検証し、通れば InterviewAnalysis として返す */
+export function validateInterviewAnalysis(value: unknown): SchemaValidationResult<InterviewAnalysis> {
+  const result = { missingFields: [] as string[], errors: [] as string[] };
+  validateNode(INTERVIEW_ANALYSIS_SCHEMA, value, "", result);
+  return {
+    value: result.errors.length === 0 ? (value as InterviewAnalysis) : null,
+    missingFields: [...new Set(result.missingFields)],
+    errors: result.errors,
+  };
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/** 項目がそろっていない結果も、足りない項目を空にして InterviewAnalysis にする */
+export function normalizeInterviewAnalysis(value: unknown): InterviewAnalysis {
+  const data = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const info =
+    data.basicInfo && typeof data.basicInfo === "object"
+      ? (data.basicInfo as Record<string, unknown>)
+      : null;
+  return {
+    basicInfo: info
+      ? {
+          name: toText(info.name),
+          kana: toText(info.kana),
+          schoolName: toText(info.schoolName),
+          facultyDepartment: toText(info.facultyDepartment),
+          graduationYear: toText(info.graduationYear),
+          currentCompany: toText(info.currentCompany),
+          latestRole: toText(info.latestRole),
+          email: toText(info.email),
+          phone: toText(info.phone),
+          location: toText(info.location),
+        }
+      : undefined,
+    resumeSummary: toText(data.resumeSummary),
+    workHistorySummary: toText(data.workHistorySummary),
+    suggestedQuestions: Array.isArray(data.suggestedQuestions)
+      ? data.suggestedQuestions.filter((question): question is string => typeof question === "string" && Boolean(question))
+      : [],
+  };
+}
+
+/** 表示できる内容が1つでもあるか */
+export function hasAnalysisContent(analysis: InterviewAnalysis): boolean {
+  return Boolean(
+    Object.values(analysis.basicInfo ?? {}).some(Boolean) ||
+      analysis.resumeSummary ||
+      analysis.workHistorySummary ||
+      analysis.suggestedQuestions.length > 0
+  );
+}
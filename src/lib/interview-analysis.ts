@@ -0,0 +1,126 @@
+/**
+ * 履歴書・職務経歴書の解析（基本情報・要約・質問候補）
+ * - 設定で選んだ LLM プロバイダーで生成する
+ * - スキーマに合う JSON を求め、合わない場合は前回の出力と問題点だけを送って1回だけ直してもらう
+ * - ストリームで受け取り、届いた項目から表示できるよう途中の結果を渡す
+ */
+
+import type { InterviewAnalysis } from "@/hooks/useInterviewStore";
+import {
+  AnalysisValidationError,
+  normalizeInterviewAnalysis,
+  toJsonSchema,
+  validateInterviewAnalysis,
+  type SchemaValidationResult,
+} from "@/lib/interview-analysis-schema";
+import type { InlineDocument } from "@/lib/llm-api";
+import type { LlmProvider } from "@/lib/llm-provider";
+import { parsePartialJson } from "@/lib/partial-json";
+
+interface AnalyzeInterviewDocumentsInput {
+  provider: LlmProvider;
+  resumeText: string;
+  workHistoryText: string;
+  inlineDocuments?: InlineDocument[];
+  /** 作成の中断用 */
+  signal?: AbortSignal;
+  /** 応答が届くたびに、その時点までの結果を渡す（そろっていない項目は空） */
+  onPartial?: (analysis: InterviewAnalysis) => void;
+}
+
+function parseJsonResponse<T>(text: string): T | null {
+  const cleaned = text
+    .replace(/^```json\s*/i, "")
+    .replace(/^```\s*/i, "")
+    .replace(/```$/i, "")
+    .trim();
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    const start = cleaned.indexOf("{");
+    const end = cleaned.lastIndexOf("}");
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(cleaned.slice(start, end + 1)) as T;
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+}
+
+function checkInterviewAnalysis(raw: string): SchemaValidationResult<InterviewAnalysis> {
+  const parsed = parseJsonResponse<unknown>(raw);
+  if (parsed === null) {
+    return { value: null, missingFields: [], errors: ["JSONとして解析できませんでした"] };
+  }
+  return validateInterviewAnalysis(parsed);
+}
+
+export async function analyzeInterviewDocuments({
+  provider,
+  resumeText,
+  workHistoryText,
+  inlineDocuments = [],
+  signal,
+  onPartial,
+}: AnalyzeInterviewDocumentsInput): Promise<InterviewAnalysis> {
+  const prompt = `
+あなたは採用面接の準備を支援するアシスタントです。
+履歴書と職務経歴書を読み、面接官が短時間で確認できる要約と、面接で聞くべき質問候補を作ってください。
+出力の各項目は、指定したJSONスキーマの説明に従ってください。
+
+履歴書テキスト:
+${resumeText || "(PDF添付または未入力)"}
+
+職務経歴書テキスト:
+${workHistoryText || "(PDF添付または未入力)"}
+
+質問候補は、経歴の深掘り、実績の再現性、役割範囲、転職理由、入社後の期待値確認に使えるものを優先してください。
+基本情報は書類に明記されている内容だけを抽出し、推測で補完しないでください。
+`;
+
+  const raw = await provider.generate({
+    prompt,
+    inlineDocuments,
+    responseSchema: toJsonSchema(),
+    signal,
+    onText: onPartial && ((text) => onPartial(normalizeInterviewAnalysis(parsePartialJson(text)))),
+  });
+  let validation = checkInterviewAnalysis(raw);
+
+  // スキーマに合わない場合は、問題点を伝えて1回だけ直してもらう
+  // 書類は前回の出力に反映済みのため送り直さず、途中の結果も渡さない（1回目の結果を表示したままにする）
+  if (!validation.value) {
+    console.warn(`${provider.label}の応答がスキーマに合わないため、修正を依頼します:`, validation.errors);
+    const repairPrompt = `
+あなたは採用面接の準備を支援するアシスタントです。
+履歴書と職務経歴書から作った次のJSONが、指定したJSONスキーマに合っていませんでした。
+
+前回の出力:
+${raw}
+
+問題点:
+${validation.errors.map((error) => `- ${error}`).join("\n")}
+
+問題点を直したJSON全体を、もう一度出力してください。前回の出力にない内容を推測で補完しないでください。
+`;
+    validation = checkInterviewAnalysis(
+      await provider.generate({ prompt: repairPrompt, responseSchema: toJsonSchema(), signal })
+    );
+  }
+
+  const parsed = validation.value;
+  if (!parsed) {
+    throw new AnalysisValidationError(
+      validation.missingFields.length > 0
+        ? `${provider.label}の応答に次の項目がありませんでした: ${validation.missingFields.join("、")}`
+        : `${provider.label}の応答を解析できませんでした（${validation.errors.join("、")}）。`,
+      validation.missingFields
+    );
+  }
+
+  return normalizeInterviewAnalysis(parsed);
+}
@@ -0,0 +1,282 @@
+/**
+ * 文章生成（LLM）API の共通部分
+ * - Gemini・OpenAI 互換（Azure OpenAI・vLLM など）・Ollama の呼び出しで、タイムアウト・中断・ストリームの読み取りを共通にする
+ * - OpenAI 互換の /chat/completions と Ollama の /api/chat の呼び出しもここに置く
+ */
+
+import { getBlockingBudget, recordOpenAiUsage, type OpenAiUsage } from "@/lib/usage-ledger";
+
+/** 書類（PDF など）をそのまま渡す場合のデータ */
+export interface InlineDocument {
+  mimeType: string;
+  /** base64 */
+  data: string;
+}
+
+/** 構造化出力に使う JSON Schema（type は小文字の標準形式） */
+export type JsonSchema = Record<string, unknown>;
+
+export interface LlmRequest {
+  prompt: string;
+  inlineDocuments?: InlineDocument[];
+  /** 指定すると、このスキーマに合う JSON で返すよう求める */
+  responseSchema?: JsonSchema;
+  /** 中断用。中断すると LLM_CANCELLED_MESSAGE の Error を投げる */
+  signal?: AbortSignal;
+  /** 指定するとストリームで受け取り、届くたびにそれまでの文字列を渡す */
+  onText?: (text: string) => void;
+}
+
+export interface ChatServerRequest {
+  /** API のベースURL（OpenAI 互換は /chat/completions の手前まで、Ollama はホストまで） */
+  baseUrl: string;
+  /** 未設定なら Authorization ヘッダーを付けない */
+  apiKey?: string;
+  /** Azure OpenAI の api-version。指定すると URL に付け、APIキーを api-key ヘッダーで送る */
+  apiVersion?: string;
+  model: string;
+  /** エラーメッセージに使うサービス名 */
+  serviceName: string;
+}
+
+export const LLM_CANCELLED_MESSAGE = "AIの応答を待つのを中止しました。";
+/** 応答を待つ時間。ストリームでは最後に届いてからの時間（全体の長さでは切らない） */
+const LLM_TIMEOUT_MS = 45_000;
+const SCHEMA_NAME = "response";
+
+/** 末尾のスラッシュを除いたベースURL */
+export function normalizeLlmBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, "");
+}
+
+/**
+ * タイムアウトと中断をまとめて扱う
+ * run には fetch に渡す signal と、データが届いた時にタイムアウトを延ばす関数を渡す
+ */
+export async function runLlmRequest<T>(
+  serviceName: string,
+  signal: AbortSignal | undefined,
+  run: (fetchSignal: AbortSignal, extendTimeout: () => void) => Promise<T>
+): Promise<T> {
+  if (signal?.aborted) {
+    throw new Error(LLM_CANCELLED_MESSAGE);
+  }
+
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
+  const extendTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
+  };
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    return await run(controller.signal, extendTimeout);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new Error(
+        signal?.aborted
+          ? LLM_CANCELLED_MESSAGE
+          : `${serviceName}の応答がタイムアウトしました。モデルを変更して再度お試しください。`
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+/** ストリームを1行ずつ読む。データが届くたびに onChunk を呼ぶ */
+export async function readStreamLines(
+  body: ReadableStream<Uint8Array>,
+  onChunk: () => void,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    onChunk();
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(onLine);
+  }
+  const rest = buffer + decoder.decode();
+  if (rest) onLine(rest);
+}
+
+/** エラー応答の本文から、error.message があればそれを使ったメッセージを作る */
+export function getLlmErrorMessage(serviceName: string, status: number, body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { error?: string | { message?: string } };
+    const message = typeof parsed.error === "string" ? parsed.error : parsed.error?.message;
+    if (message) {
+      return `${serviceName}エラー (${status}): ${message}`;
+    }
+  } catch {
+    // 本文をそのまま使う
+  }
+  return `${serviceName}エラー (${status}): ${body}`;
+}
+
+/** Azure OpenAI のデプロイのURLは api-version と api-key ヘッダーが必要で、それ以外は Bearer で認証する */
+function getAuthHeaders(server: ChatServerRequest): Record<string, string> {
+  if (!server.apiKey) return {};
+  return server.apiVersion ? { "api-key": server.apiKey } : { Authorization: `Bearer ${server.apiKey}` };
+}
+
+async function postJson(
+  server: ChatServerRequest,
+  path: string,
+  body: unknown,
+  fetchSignal: AbortSignal
+): Promise<Response> {
+  const query = server.apiVersion ? `?api-version=${encodeURIComponent(server.apiVersion)}` : "";
+  const response = await fetch(`${normalizeLlmBaseUrl(server.baseUrl)}${path}${query}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...getAuthHeaders(server),
+    },
+    body: JSON.stringify(body),
+    signal: fetchSignal,
+  });
+  if (!response.ok) {
+    throw new Error(getLlmErrorMessage(server.serviceName, response.status, await response.text()));
+  }
+  return response;
+}
+
+/**
+ * OpenAI 互換の /chat/completions で生成する
+ * PDF は file パートで送る（対応していないサーバーではエラーになる）
+ * 応答の usage を使用量に記録し、上限に達している場合は送らずに Error を投げる
+ */
+export async function requestOpenAiChat(server: ChatServerRequest, request: LlmRequest): Promise<string> {
+  const blockingBudget = getBlockingBudget("openai");
+  if (blockingBudget) {
+    throw new Error(blockingBudget.message);
+  }
+
+  const content = [
+    { type: "text", text: request.prompt },
+    ...(request.inlineDocuments ?? []).map((document, index) => ({
+      type: "file",
+      file: {
+        filename: `document-${index + 1}.pdf`,
+        file_data: `data:${document.mimeType};base64,${document.data}`,
+      },
+    })),
+  ];
+  const body = {
+    model: server.model,
+    messages: [{ role: "user", content }],
+    stream: Boolean(request.onText),
+    // ストリームでは最後のチャンクに usage を付けてもらう
+    ...(request.onText ? { stream_options: { include_usage: true } } : {}),
+    ...(request.responseSchema
+      ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: SCHEMA_NAME, schema: request.responseSchema, strict: true },
+          },
+        }
+      : {}),
+  };
+
+  return runLlmRequest(server.serviceName, request.signal, async (fetchSignal, extendTimeout) => {
+    let text = "";
+    let usage: OpenAiUsage | undefined;
+    try {
+      const response = await postJson(server, "/chat/completions", body, fetchSignal);
+
+      if (request.onText && response.body) {
+        const onText = request.onText;
+        await readStreamLines(response.body, extendTimeout, (line) => {
+          const data = line.startsWith("data:") ? line.slice("data:".length).trim() : "";
+          if (!data || data === "[DONE]") return;
+
+          const chunk = JSON.parse(data) as {
+            choices?: { delta?: { content?: string } }[];
+            usage?: OpenAiUsage | null;
+          };
+          usage = chunk.usage ?? usage;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onText(text);
+          }
+        });
+      } else {
+        const data = (await response.json()) as {
+          choices?: { message?: { content?: string } }[];
+          usage?: OpenAiUsage;
+        };
+        usage = data.usage;
+        text = data.choices?.[0]?.message?.content ?? "";
+      }
+    } finally {
+      // 送ったリクエストは失敗しても1回と数える。トークン数は応答が返した分だけ記録する
+      recordOpenAiUsage(usage);
+    }
+
+    if (!text) {
+      throw new Error(`${server.serviceName}から有効な応答が返りませんでした。`);
+    }
+    return text;
+  });
+}
+
+/**
+ * Ollama の /api/chat で生成する
+ * Ollama は PDF を読めないため、書類はテキストで渡す必要がある
+ */
+export async function requestOllamaChat(server: ChatServerRequest, request: LlmRequest): Promise<string> {
+  if (request.inlineDocuments && request.inlineDocuments.length > 0) {
+    throw new Error("OllamaではPDFを直接読めません。書類はテキストファイルで読み込んでください。");
+  }
+
+  const body = {
+    model: server.model,
+    messages: [{ role: "user", content: request.prompt }],
+    stream: Boolean(request.onText),
+    ...(request.responseSchema ? { format: request.responseSchema } : {}),
+  };
+
+  return runLlmRequest(server.serviceName, request.signal, async (fetchSignal, extendTimeout) => {
+    const response = await postJson(server, "/api/chat", body, fetchSignal);
+
+    let text = "";
+    if (request.onText && response.body) {
+      const onText = request.onText;
+      // ストリームは1行に1つの JSON（NDJSON）
+      await readStreamLines(response.body, extendTimeout, (line) => {
+        if (!line.trim()) return;
+
+        const chunk = JSON.parse(line) as { message?: { content?: string }; error?: string };
+        if (chunk.error) {
+          throw new Error(`${server.serviceName}エラー: ${chunk.error}`);
+        }
+        if (chunk.message?.content) {
+          text += chunk.message.content;
+          onText(text);
+        }
+      });
+    } else {
+      const data = (await response.json()) as { message?: { content?: string } };
+      text = data.message?.content ?? "";
+    }
+
+    if (!text) {
+      throw new Error(`${server.serviceName}から有効な応答が返りませんでした。`);
+    }
+    return text;
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * 文章生成（LLM）プロバイダー
+ * - Gemini / OpenAI 互換サーバー（OpenAI・Azure OpenAI・vLLM など）/ Ollama を同じ形で扱う
+ * - 書類の解析など AI を使う機能はこのインターフェースだけを使う
+ */
+
+import { generateWithGemini, testGeminiConnection } from "@/lib/gemini-service";
+import {
+  normalizeLlmBaseUrl,
+  requestOllamaChat,
+  requestOpenAiChat,
+  type LlmRequest,
+} from "@/lib/llm-api";
+
+export type LlmProviderId = "gemini" | "openai-compatible" | "ollama";
+
+/** Gemini 以外のプロバイダーの設定（Gemini のAPIキーとモデルは従来どおり geminiApiKey・geminiModel に保存する） */
+export interface LlmProviderSettings {
+  provider: LlmProviderId;
+  /** OpenAI 互換サーバーのベースURL（/chat/completions の手前まで） */
+  openAiBaseUrl: string;
+  /** OpenAI 互換サーバーのAPIキー（認証なしなら空） */
+  openAiApiKey: string;
+  openAiModel: string;
+  /**
+   * Azure OpenAI の api-version（例: 2024-10-21）。デプロイのURL（/openai/deployments/…）を使う場合に指定する
+   * 指定すると URL に付け、APIキーを api-key ヘッダーで送る。/openai/v1 のURLでは空のままにする
+   */
+  openAiApiVersion: string;
+  /** Ollama のURL（/api/chat の手前まで） */
+  ollamaBaseUrl: string;
+  ollamaModel: string;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  /** 画面表示用の名前 */
+  label: string;
+  /** 生成に必要な設定がそろっているか */
+  isConfigured(): boolean;
+  /** 生成した文字列を返す。失敗・中断は Error を投げる */
+  generate(request: LlmRequest): Promise<string>;
+  testConnection(): Promise<{ success: boolean; message: string }>;
+}
+
+export const LLM_PROVIDER_OPTIONS: { value: LlmProviderId; label: string }[] = [
+  { value: "gemini", label: "Google Gemini" },
+  { value: "openai-compatible", label: "OpenAI互換API（OpenAI・Azure OpenAIなど）" },
+  { value: "ollama", label: "Ollama（ローカル）" },
+];
+
+export const DEFAULT_LLM_PROVIDER_SETTINGS: LlmProviderSettings = {
+  provider: "gemini",
+  openAiBaseUrl: "https://api.openai.com/v1",
+  openAiApiKey: "",
+  openAiModel: "gpt-4.1-mini",
+  openAiApiVersion: "",
+  ollamaBaseUrl: "http://localhost:11434",
+  ollamaModel: "qwen3:8b",
+};
+
+const TEST_PROMPT = "OKとだけ返してください。";
+
+function toText(value: unknown, fallback: string): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+export function normalizeLlmProviderSettings(
+  saved: Partial<LlmProviderSettings> | undefined
+): LlmProviderSettings {
+  const defaults = DEFAULT_LLM_PROVIDER_SETTINGS;
+  return {
+    provider: LLM_PROVIDER_OPTIONS.some((option) => option.value === saved?.provider)
+      ? (saved?.provider as LlmProviderId)
+      : defaults.provider,
+    openAiBaseUrl: toText(saved?.openAiBaseUrl, defaults.openAiBaseUrl),
+    openAiApiKey: toText(saved?.openAiApiKey, defaults.openAiApiKey),
+    openAiModel: toText(saved?.openAiModel, defaults.openAiModel),
+    openAiApiVersion: toText(saved?.openAiApiVersion, defaults.openAiApiVersion),
+    ollamaBaseUrl: toText(saved?.ollamaBaseUrl, defaults.ollamaBaseUrl),
+    ollamaModel: toText(saved?.ollamaModel, defaults.ollamaModel),
+  };
+}
+
+/** 実際に短い文を生成させて確かめる */
+async function testByGenerating(
+  generate: (request: LlmRequest) => Promise<string>,
+  serviceName: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await generate({ prompt: TEST_PROMPT });
+    return { success: true, message: `${serviceName}に接続できました: ${result.trim()}` };
+  } catch (error) {
+    return {
+      success: false,
+      message: `接続エラー: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function createGeminiProvider(apiKey: string, model: string): LlmProvider {
+  return {
+    id: "gemini",
+    label: "Gemini",
+    isConfigured: () => Boolean(apiKey),
+    generate: (request) => generateWithGemini(apiKey, model, request),
+    testConnection: () => testGeminiConnection(apiKey, model),
+  };
+}
+
+function createOpenAiCompatibleProvider(settings: LlmProviderSettings): LlmProvider {
+  const server = {
+    baseUrl: settings.openAiBaseUrl,
+    apiKey: settings.openAiApiKey || undefined,
+    model: settings.openAiModel.trim(),
+    apiVersion: settings.openAiApiVersion.trim() || undefined,
+    serviceName: "OpenAI互換API",
+  };
+  const generate = (request: LlmRequest) => requestOpenAiChat(server, request);
+
+  return {
+    id: "openai-compatible",
+    label: "OpenAI互換API",
+    isConfigured: () => Boolean(normalizeLlmBaseUrl(server.baseUrl) && server.model),
+    generate,
+    testConnection: async () => {
+      if (!normalizeLlmBaseUrl(server.baseUrl) || !server.model) {
+        return { success: false, message: "URLとモデル名を入力してください。" };
+      }
+      return testByGenerating(generate, normalizeLlmBaseUrl(server.baseUrl));
+    },
+  };
+}
+
+function createOllamaProvider(settings: LlmProviderSettings): LlmProvider {
+  const server = {
+    baseUrl: settings.ollamaBaseUrl,
+    model: settings.ollamaModel.trim(),
+    serviceName: "Ollama",
+  };
+  const generate = (request: LlmRequest) => requestOllamaChat(server, request);
+
+  return {
+    id: "ollama",
+    label: "Ollama",
+    isConfigured: () => Boolean(normalizeLlmBaseUrl(server.baseUrl) && server.model),
+    generate,
+    testConnection: async () => {
+      if (!normalizeLlmBaseUrl(server.baseUrl) || !server.model) {
+        return { success: false, message: "URLとモデル名を入力してください。" };
+      }
+      return testByGenerating(generate, `Ollama（${server.model}）`);
+    },
+  };
+}
+
+/** 設定からプロバイダーを作る */
+export function createLlmProvider(
+  settings: LlmProviderSettings,
+  geminiApiKey: string,
+  geminiModel: string
+): LlmProvider {
+  switch (settings.provider) {
+    case "openai-compatible":
+      return createOpenAiCompatibleProvider(settings);
+    case "ollama":
+      return createOllamaProvider(settings);
+    default:
+      return createGeminiProvider(geminiApiKey, geminiModel);
+  }
+}
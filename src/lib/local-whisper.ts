@@ -0,0 +1,242 @@
+/**
+ * ブラウザ内 Whisper（オフライン文字起こし）
+ * - Transformers.js の Whisper を Web Worker で動かし、音声を外部に送らずに文字起こしする
+ * - モデルは初回に Hugging Face からダウンロードし、ブラウザのキャッシュ（Cache Storage）に保存する
+ * - 音声のデコードは OfflineAudioContext が使えるメインスレッドで行い、16kHz のサンプルだけを Worker に渡す
+ */
+
+import { decodeAudioFile } from "@/lib/audio-import";
+import {
+  DEFAULT_HALLUCINATION_PHRASES,
+  filterTranscriptionSegments,
+  parseHallucinationPhrases,
+  type WhisperSegment,
+} from "@/lib/hallucination-filter";
+import { LANGUAGE_OPTIONS, type RecognitionLanguage } from "@/lib/recognition-language";
+import { TranscriptionError, type TranscriptionResult, type WhisperTuning } from "@/lib/whisper-api";
+
+export type LocalWhisperModelId = "fast" | "balanced" | "accurate";
+
+export interface LocalWhisperModelOption {
+  value: LocalWhisperModelId;
+  label: string;
+  /** Hugging Face のモデルID */
+  repo: string;
+  /** ダウンロードサイズの目安 */
+  sizeLabel: string;
+  description: string;
+}
+
+export const LOCAL_WHISPER_MODELS: LocalWhisperModelOption[] = [
+  {
+    value: "fast",
+    label: "速度優先（tiny）",
+    repo: "onnx-community/whisper-tiny",
+    sizeLabel: "約40MB",
+    description: "古いPCでも遅れにくい代わりに、固有名詞や早口の聞き取りは苦手です。",
+  },
+  {
+    value: "balanced",
+    label: "バランス（base）",
+    repo: "onnx-community/whisper-base",
+    sizeLabel: "約80MB",
+    description: "多くのノートPCで会話に遅れずに文字起こしできます。",
+  },
+  {
+    value: "accurate",
+    label: "精度優先（small）",
+    repo: "onnx-community/whisper-small",
+    sizeLabel: "約250MB",
+    description: "精度は高いものの処理が重く、発言が続くと表示が遅れることがあります。",
+  },
+];
+
+export const DEFAULT_LOCAL_WHISPER_MODEL: LocalWhisperModelId = "balanced";
+
+/** Worker に送る依頼 */
+export type LocalWhisperRequest =
+  | { type: "load"; id: number; repo: string }
+  | { type: "transcribe"; id: number; repo: string; audio: Float32Array; language?: string }
+  | { type: "check-cache"; id: number; repo: string }
+  | { type: "clear-cache"; id: number; repo: string };
+
+/** id を除いた依頼（種類ごとに Omit する） */
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+
+/** Worker から届く応答 */
+export type LocalWhisperResponse =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "result"; id: number; result: unknown }
+  | { type: "error"; id: number; message: string };
+
+/** Worker が返す文字起こし結果 */
+export interface LocalWhisperOutput {
+  text: string;
+  chunks?: { text: string; timestamp: [number, number | null] }[];
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * モデルのダウンロード中の通信エラー（オフライン・タイムアウト・サーバーの一時的なエラー）
+ * Chrome・Firefox・Safari の fetch の失敗と、Transformers.js が返す HTTP ステータスを含むメッセージに一致させる
+ */
+const TRANSIENT_ERROR_PATTERN = /failed to fetch|networkerror|network error|load failed|timed? ?out|offline|\((?:408|429|5\d\d)\)/i;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+export function normalizeLocalWhisperModel(value: unknown): LocalWhisperModelId {
+  return LOCAL_WHISPER_MODELS.some((option) => option.value === value)
+    ? (value as LocalWhisperModelId)
+    : DEFAULT_LOCAL_WHISPER_MODEL;
+}
+
+export function getLocalWhisperModel(model: LocalWhisperModelId): LocalWhisperModelOption {
+  return LOCAL_WHISPER_MODELS.find((option) => option.value === model) ?? LOCAL_WHISPER_MODELS[1];
+}
+
+export function isLocalWhisperSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof Worker !== "undefined" &&
+    typeof WebAssembly !== "undefined" &&
+    typeof caches !== "undefined"
+  );
+}
+
+function rejectAll(message: string) {
+  pendingRequests.forEach((request) => request.reject(new Error(message)));
+  pendingRequests.clear();
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./local-whisper.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<LocalWhisperResponse>) => {
+      const response = event.data;
+      const request = pendingRequests.get(response.id);
+      if (!request) return;
+
+      if (response.type === "progress") {
+        request.onProgress?.(response.progress);
+        return;
+      }
+      pendingRequests.delete(response.id);
+      if (response.type === "result") {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.message));
+      }
+    };
+    worker.onerror = (event) => {
+      console.error("ブラウザ内Whisperの Worker でエラーが発生しました:", event.message);
+      rejectAll("ブラウザ内Whisperの処理が停止しました。ページを再読み込みしてください。");
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function request<T>(
+  message: WithoutId<LocalWhisperRequest>,
+  onProgress?: (progress: number) => void,
+  transfer: Transferable[] = []
+): Promise<T> {
+  if (!isLocalWhisperSupported()) {
+    return Promise.reject(new Error("このブラウザはブラウザ内Whisperに対応していません。"));
+  }
+
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    pendingRequests.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+    getWorker().postMessage({ ...message, id }, transfer);
+  });
+}
+
+/** モデルをダウンロードして読み込む（キャッシュ済みならキャッシュから読む）。progress は 0〜100 */
+export function loadLocalWhisperModel(
+  model: LocalWhisperModelId,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  return request<void>({ type: "load", repo: getLocalWhisperModel(model).repo }, onProgress);
+}
+
+/** モデルがブラウザにキャッシュ済みか */
+export function isLocalWhisperModelCached(model: LocalWhisperModelId): Promise<boolean> {
+  return request<boolean>({ type: "check-cache", repo: getLocalWhisperModel(model).repo });
+}
+
+/** キャッシュしたモデルを削除する */
+export function clearLocalWhisperModel(model: LocalWhisperModelId): Promise<void> {
+  return request<void>({ type: "clear-cache", repo: getLocalWhisperModel(model).repo });
+}
+
+/**
+ * 音声をブラウザ内で文字起こしする
+ * タイムスタンプ付きの区間ごとに、サーバーの Whisper と同じ定型句・繰り返しの判定をかける
+ * （確信度などのメタデータは返らないため、その判定は行わない。用語辞書の prompt も使わない）
+ * partial が true なら途中経過として、除いた区間を一覧に載せない
+ */
+export async function transcribeLocally(
+  audioBlob: Blob,
+  model: LocalWhisperModelId,
+  language: RecognitionLanguage,
+  tuning: WhisperTuning = {},
+  partial = false
+): Promise<TranscriptionResult | null> {
+  let audio: Float32Array;
+  try {
+    audio = (await decodeAudioFile(audioBlob)).samples;
+  } catch (error) {
+    throw new TranscriptionError(error instanceof Error ? error.message : String(error), { retryable: false });
+  }
+
+  let output: LocalWhisperOutput;
+  try {
+    output = await request<LocalWhisperOutput>(
+      {
+        type: "transcribe",
+        repo: getLocalWhisperModel(model).repo,
+        audio,
+        language: LANGUAGE_OPTIONS.find((option) => option.value === language)?.whisperName,
+      },
+      undefined,
+      [audio.buffer]
+    );
+  } catch (error) {
+    // モデルのダウンロードの通信エラー（オフラインで未キャッシュなど）だけは、通信が戻れば成功する見込みがある
+    // メモリ不足・対応していないモデルや dtype・Worker の停止は、再試行しても同じ結果になる
+    const message = error instanceof Error ? error.message : String(error);
+    throw new TranscriptionError(`ブラウザ内Whisperで文字起こしできませんでした（${message}）`, {
+      retryable: TRANSIENT_ERROR_PATTERN.test(message),
+    });
+  }
+
+  const segments: WhisperSegment[] | undefined = output.chunks?.map((chunk) => ({
+    text: chunk.text,
+    start: chunk.timestamp[0],
+    end: chunk.timestamp[1] ?? undefined,
+  }));
+  const { text, startMs, endMs } = filterTranscriptionSegments(
+    output.text.trim(),
+    segments,
+    tuning.hallucinationPhrases ?? parseHallucinationPhrases(DEFAULT_HALLUCINATION_PHRASES),
+    "ブラウザ内Whisper",
+    !partial
+  );
+  if (!text) return null;
+
+  return {
+    text,
+    language: language === "auto" ? undefined : language,
+    startMs,
+    endMs,
+  };
+}
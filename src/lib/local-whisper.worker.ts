@@ -0,0 +1,92 @@
+/**
+ * ブラウザ内 Whisper の Web Worker
+ * - 推論は重いため、録音・画面描画を止めないよう Worker で行う
+ * - モデルごとにパイプラインを一度だけ作り、文字起こしは届いた順に1件ずつ処理する
+ */
+
+import { env, ModelRegistry, pipeline, type ProgressInfo } from "@huggingface/transformers";
+import type { LocalWhisperOutput, LocalWhisperRequest, LocalWhisperResponse } from "@/lib/local-whisper";
+
+const TASK = "automatic-speech-recognition";
+const MODEL_OPTIONS = { dtype: "q8", device: "wasm" } as const;
+/** Whisper が一度に扱える長さ。これより長い音声は区切って処理する */
+const CHUNK_LENGTH_S = 30;
+
+// モデルは Hugging Face から取得し、ブラウザのキャッシュに保存する
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+type Transcriber = Awaited<ReturnType<typeof createTranscriber>>;
+
+const transcribers = new Map<string, Promise<Transcriber>>();
+let queue: Promise<unknown> = Promise.resolve();
+
+function post(response: LocalWhisperResponse) {
+  self.postMessage(response);
+}
+
+function createTranscriber(repo: string, onProgress?: (progress: number) => void) {
+  return pipeline(TASK, repo, {
+    ...MODEL_OPTIONS,
+    progress_callback: (info: ProgressInfo) => {
+      if (info.status === "progress_total") {
+        onProgress?.(info.progress);
+      }
+    },
+  });
+}
+
+function getTranscriber(repo: string, onProgress?: (progress: number) => void): Promise<Transcriber> {
+  let transcriber = transcribers.get(repo);
+  if (!transcriber) {
+    transcriber = createTranscriber(repo, onProgress);
+    // 失敗した読み込みは覚えず、次の依頼で取り直す
+    transcriber.catch(() => transcribers.delete(repo));
+    transcribers.set(repo, transcriber);
+  }
+  return transcriber;
+}
+
+async function transcribe(repo: string, audio: Float32Array, language?: string): Promise<LocalWhisperOutput> {
+  const transcriber = await getTranscriber(repo);
+  const output = await transcriber(audio, {
+    language,
+    task: "transcribe",
+    return_timestamps: true,
+    chunk_length_s: CHUNK_LENGTH_S,
+  });
+  return {
+    text: output.text,
+    chunks: output.chunks?.map((chunk) => ({ text: chunk.text, timestamp: chunk.timestamp })),
+  };
+}
+
+async function handle(message: LocalWhisperRequest): Promise<unknown> {
+  switch (message.type) {
+    case "load":
+      await getTranscriber(message.repo, (progress) => post({ type: "progress", id: message.id, progress }));
+      return undefined;
+    case "transcribe":
+      // 推論を並べると遅れが積み上がるだけなので、届いた順に1件ずつ処理する
+      queue = queue.catch(() => undefined).then(() => transcribe(message.repo, message.audio, message.language));
+      return queue;
+    case "check-cache":
+      return ModelRegistry.is_pipeline_cached(TASK, message.repo, MODEL_OPTIONS);
+    case "clear-cache": {
+      const transcriber = transcribers.get(message.repo);
+      transcribers.delete(message.repo);
+      await (await transcriber?.catch(() => undefined))?.dispose();
+      await ModelRegistry.clear_pipeline_cache(TASK, message.repo, MODEL_OPTIONS);
+      return undefined;
+    }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<LocalWhisperRequest>) => {
+  const message = event.data;
+  try {
+    post({ type: "result", id: message.id, result: await handle(message) });
+  } catch (error) {
+    post({ type: "error", id: message.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
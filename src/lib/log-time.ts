@@ -0,0 +1,55 @@
+/**
+ * 会話ログの時刻表示
+ * - 時刻（10:02:03）か、最初の発言からの経過時間（00:12:34）で表示する
+ * - 発話時刻を持たない旧データは、追加時に作った「HH:MM」をそのまま使う
+ */
+
+import type { LogItem, LogTimeDisplay } from "@/hooks/useInterviewStore";
+
+function pad(value: number): string {
+    return String(value).padStart(2, "0");
+}
+
+export function formatClockTime(epochMs: number): string {
+    return new Date(epochMs).toLocaleTimeString("ja-JP", {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    });
+}
+
+/** 経過時間を「00:12:34」の形にする */
+export function formatElapsed(ms: number): string {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    return `${pad(hours)}:${pad(minutes)}:${pad(totalSeconds % 60)}`;
+}
+
+/** 経過時間の起点（最初の発言の開始時刻） */
+export function getLogOrigin(logs: LogItem[]): number | null {
+    let origin: number | null = null;
+    for (const log of logs) {
+        if (typeof log.timestamp === "number" && (origin === null || log.timestamp < origin)) {
+            origin = log.timestamp;
+        }
+    }
+    return origin;
+}
+
+export function formatLogTime(log: LogItem, display: LogTimeDisplay, origin: number | null): string {
+    if (typeof log.timestamp !== "number") return log.time;
+    if (display === "elapsed" && origin !== null) {
+        return formatElapsed(log.timestamp - origin);
+    }
+    return formatClockTime(log.timestamp);
+}
+
+/** ツールチップ用の発話区間（例: 10:02:03〜10:02:15（12秒）） */
+export function describeLogRange(log: LogItem): string | undefined {
+    if (typeof log.timestamp !== "number") return undefined;
+    if (typeof log.endedAt !== "number") return formatClockTime(log.timestamp);
+
+    const seconds = Math.max(0, Math.round((log.endedAt - log.timestamp) / 1000));
+    return `${formatClockTime(log.timestamp)}〜${formatClockTime(log.endedAt)}（${seconds}秒）`;
+}
@@ -0,0 +1,94 @@
+/**
+ * 途中までの JSON の読み取り
+ * - ストリームで届いている途中の JSON を、閉じていない文字列・配列・オブジェクトを補って読む
+ * - 値の文字列は途中まででも使い、キーの途中や値の前で切れている部分は捨てる
+ */
+
+type Container = "{" | "[";
+
+function getClosers(stack: Container[]): string {
+    return stack
+        .map((container) => (container === "{" ? "}" : "]"))
+        .reverse()
+        .join("");
+}
+
+/** 読めない場合は null */
+export function parsePartialJson(text: string): unknown {
+    const start = text.search(/[{[]/);
+    if (start < 0) return null;
+
+    const source = text.slice(start);
+    const stack: Container[] = [];
+    let inString = false;
+    let escaped = false;
+    let stringIsKey = false;
+    let expectKey = false;
+    /** ここで切って閉じれば JSON として読める位置 */
+    let safeEnd = 0;
+    let safeClosers = "";
+
+    const markSafe = (end: number) => {
+        safeEnd = end;
+        safeClosers = getClosers(stack);
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === "\\") {
+                escaped = true;
+            } else if (char === "\"") {
+                inString = false;
+                if (!stringIsKey) markSafe(i + 1);
+            }
+            continue;
+        }
+
+        switch (char) {
+            case "\"":
+                inString = true;
+                stringIsKey = stack[stack.length - 1] === "{" && expectKey;
+                break;
+            case "{":
+            case "[":
+                stack.push(char);
+                expectKey = char === "{";
+                markSafe(i + 1);
+                break;
+            case "}":
+            case "]":
+                stack.pop();
+                expectKey = false;
+                markSafe(i + 1);
+                break;
+            case ":":
+                expectKey = false;
+                break;
+            case ",":
+                // 数値・true などはここで値が終わる
+                markSafe(i);
+                expectKey = stack[stack.length - 1] === "{";
+                break;
+        }
+        if (stack.length === 0) break;
+    }
+
+    const candidates = [`${source.slice(0, safeEnd)}${safeClosers}`];
+    if (inString && !stringIsKey) {
+        // 書きかけの値の文字列も表示に使う
+        const body = source.slice(0, escaped ? -1 : undefined);
+        candidates.unshift(`${body}"${getClosers(stack)}`);
+    }
+
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // 次の候補を試す
+        }
+    }
+    return null;
+}
@@ -0,0 +1,117 @@
+/**
+ * 相手音声（CH2）の途中経過の文字起こし
+ * - 録音中のチャンクを数秒ごとにその時点までの音声で文字起こしし、暫定の発言として表示する
+ * - 同時に送るのは1件だけにし、待っている間に届いた途中経過は最新のものだけを残す
+ * - チャンクが確定して本来の文字起こしが終わったら、そのチャンクの暫定表示を消す
+ * - レート制限（429）を受けたら、しばらく途中経過を送らない
+ */
+
+import type { SystemAudioChunk } from "@/lib/audio-capture";
+import { TranscriptionError, type TranscriptionResult } from "@/lib/whisper-api";
+
+export interface InterimTranscript {
+    /** チャンクの録音開始時刻（epoch ms）。確定したチャンクと対応づけるキー */
+    timestamp: number;
+    text: string;
+}
+
+export interface PartialTranscriberOptions {
+    transcribe: (chunk: SystemAudioChunk) => Promise<TranscriptionResult | null>;
+    /** 暫定の発言が変わった時（録音開始時刻の順） */
+    onChange: (interims: InterimTranscript[]) => void;
+    /** true を返す間は途中経過を送らない（使用量の上限が近い時など） */
+    isPaused?: () => boolean;
+}
+
+/** 確定済みとして覚えておくチャンクの数（遅れて届いた途中経過を捨てるため） */
+const MAX_COMPLETED_CHUNKS = 20;
+/** 429 に retry-after がない場合に途中経過を止める時間 */
+const RATE_LIMIT_PAUSE_MS = 30_000;
+
+export class PartialTranscriber {
+    private interims = new Map<number, string>();
+    private completed: number[] = [];
+    private running = false;
+    private nextChunk: SystemAudioChunk | null = null;
+    private disposed = false;
+    /** この時刻（epoch ms）までは途中経過を送らない */
+    private pausedUntil = 0;
+
+    constructor(private readonly options: PartialTranscriberOptions) { }
+
+    /** 録音中のチャンクの途中経過を渡す */
+    push(chunk: SystemAudioChunk): void {
+        if (this.disposed || this.completed.includes(chunk.timestamp)) return;
+        if (Date.now() < this.pausedUntil || this.options.isPaused?.()) return;
+
+        if (this.running) {
+            this.nextChunk = chunk;
+            return;
+        }
+        void this.run(chunk);
+    }
+
+    /** チャンクの文字起こしが確定した（失敗した場合も含む） */
+    complete(timestamp: number): void {
+        this.completed = [...this.completed, timestamp].slice(-MAX_COMPLETED_CHUNKS);
+        if (this.nextChunk?.timestamp === timestamp) {
+            this.nextChunk = null;
+        }
+        if (this.interims.delete(timestamp)) {
+            this.notify();
+        }
+    }
+
+    /** 暫定の発言をすべて消す（録音停止時など） */
+    clear(): void {
+        this.nextChunk = null;
+        if (this.interims.size > 0) {
+            this.interims.clear();
+            this.notify();
+        }
+    }
+
+    /** 確定した文字起こしが 429 を受けた時など、しばらく途中経過を送らない */
+    pause(durationMs = RATE_LIMIT_PAUSE_MS): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + durationMs);
+        this.nextChunk = null;
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.clear();
+    }
+
+    private async run(chunk: SystemAudioChunk): Promise<void> {
+        this.running = true;
+        try {
+            const result = await this.options.transcribe(chunk);
+            const text = result?.text.trim();
+            if (text && !this.disposed && !this.completed.includes(chunk.timestamp)) {
+                this.interims.set(chunk.timestamp, text);
+                this.notify();
+            }
+        } catch (error) {
+            // 途中経過は確定した文字起こしで置き換わるため、失敗しても表示しない
+            console.warn("途中経過の文字起こしに失敗しました:", error);
+            if (error instanceof TranscriptionError && error.status === 429) {
+                this.pause(error.retryAfterMs);
+            }
+        } finally {
+            this.running = false;
+        }
+
+        const next = this.nextChunk;
+        this.nextChunk = null;
+        if (next) {
+            this.push(next);
+        }
+    }
+
+    private notify(): void {
+        const interims = [...this.interims.entries()]
+            .map(([timestamp, text]) => ({ timestamp, text }))
+            .sort((a, b) => a.timestamp - b.timestamp);
+        this.options.onChange(interims);
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * 認識言語の設定
+ * - チャンネルごとに認識言語を選べるようにする
+ * - Whisper は自動判定（auto）に対応し、判定した言語をログに残す
+ * - Web Speech API はロケール（ja-JP など）で指定する必要があるため、自動判定は使えない
+ */
+
+/** ISO 639-1 の言語コード、または自動判定 */
+export type RecognitionLanguage = "auto" | "ja" | "en" | "zh" | "ko" | "fr" | "de" | "es" | "pt" | "vi" | "th" | "id" | "hi";
+
+interface LanguageOption {
+    value: Exclude<RecognitionLanguage, "auto">;
+    label: string;
+    /** Web Speech API のロケール */
+    speechLocale: string;
+    /** Whisper の verbose_json が返す言語名 */
+    whisperName: string;
+}
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+    { value: "ja", label: "日本語", speechLocale: "ja-JP", whisperName: "japanese" },
+    { value: "en", label: "英語", speechLocale: "en-US", whisperName: "english" },
+    { value: "zh", label: "中国語", speechLocale: "zh-CN", whisperName: "chinese" },
+    { value: "ko", label: "韓国語", speechLocale: "ko-KR", whisperName: "korean" },
+    { value: "fr", label: "フランス語", speechLocale: "fr-FR", whisperName: "french" },
+    { value: "de", label: "ドイツ語", speechLocale: "de-DE", whisperName: "german" },
+    { value: "es", label: "スペイン語", speechLocale: "es-ES", whisperName: "spanish" },
+    { value: "pt", label: "ポルトガル語", speechLocale: "pt-BR", whisperName: "portuguese" },
+    { value: "vi", label: "ベトナム語", speechLocale: "vi-VN", whisperName: "vietnamese" },
+    { value: "th", label: "タイ語", speechLocale: "th-TH", whisperName: "thai" },
+    { value: "id", label: "インドネシア語", speechLocale: "id-ID", whisperName: "indonesian" },
+    { value: "hi", label: "ヒンディー語", speechLocale: "hi-IN", whisperName: "hindi" },
+];
+
+export const DEFAULT_RECOGNITION_LANGUAGE: RecognitionLanguage = "ja";
+
+export function normalizeRecognitionLanguage(
+    value: unknown,
+    fallback: RecognitionLanguage = DEFAULT_RECOGNITION_LANGUAGE
+): RecognitionLanguage {
+    if (value === "auto") return "auto";
+    return LANGUAGE_OPTIONS.some((option) => option.value === value) ? (value as RecognitionLanguage) : fallback;
+}
+
+/** Web Speech API 用のロケール（自動判定は指定できないため日本語にする） */
+export function toSpeechLocale(language: RecognitionLanguage): string {
+    return LANGUAGE_OPTIONS.find((option) => option.value === language)?.speechLocale ?? "ja-JP";
+}
+
+/**
+ * Whisper が返した言語（"japanese" / "Japanese" / "ja" など）を言語コードにする
+ * 対応表にないものも2文字コードならそのまま返す
+ */
+export function normalizeDetectedLanguage(value: unknown): string | undefined {
+    if (typeof value !== "string" || !value) return undefined;
+
+    const lower = value.trim().toLowerCase();
+    const option = LANGUAGE_OPTIONS.find((item) => item.whisperName === lower || item.value === lower);
+    if (option) return option.value;
+    return /^[a-z]{2}$/.test(lower) ? lower : undefined;
+}
@@ -0,0 +1,194 @@
+/**
+ * 相手音声（CH2）の話者分離
+ * - 発話チャンクごとに声の特徴（スペクトルの形・声の高さ）を求め、近い話者にまとめる
+ * - 話者の数は事前に決めず、どの話者とも離れていれば新しい話者（相手A, 相手B, …）にする
+ * - 音声はブラウザ内だけで処理し、外部には送らない
+ * - チャンクは VAD で発話の切れ目ごとに分かれているため、1チャンクを1人の発言として扱う
+ * - 特徴の計算は Web Worker で行い、録音中のメインスレッドを止めない
+ */
+
+import { decodeAudioFile, type DecodedAudio } from "@/lib/audio-import";
+import { createDiarizedSpeakerId, type SpeakerId } from "@/lib/speakers";
+import {
+    extractVoiceEmbedding,
+    type VoiceEmbedding,
+    type VoiceEmbeddingResponse,
+} from "@/lib/voice-embedding";
+
+interface SpeakerCluster {
+    id: SpeakerId;
+    spectrum: Float32Array;
+    /** 声の高さ（log2 Hz） */
+    pitch: number | null;
+    count: number;
+}
+
+/** 同じ話者とみなすスペクトルの違い（1 - コサイン類似度） */
+const SPECTRUM_TOLERANCE = 0.15;
+/** 同じ話者とみなす声の高さの違い（オクターブ） */
+const PITCH_TOLERANCE_OCTAVES = 0.35;
+/** これ以上は新しい話者を作らず、最も近い話者に割り当てる */
+const MAX_SPEAKERS = 8;
+/** 重心の更新に使う件数の上限（話し方の変化に追従させる） */
+const MAX_CLUSTER_WEIGHT = 20;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, (response: VoiceEmbeddingResponse) => void>();
+
+function getWorker(): Worker | null {
+    if (typeof Worker === "undefined") return null;
+    if (!worker) {
+        worker = new Worker(new URL("./speaker-embedding.worker.ts", import.meta.url), { type: "module" });
+        worker.onmessage = (event: MessageEvent<VoiceEmbeddingResponse>) => {
+            const resolve = pendingRequests.get(event.data.id);
+            pendingRequests.delete(event.data.id);
+            resolve?.(event.data);
+        };
+        worker.onerror = (event) => {
+            console.error("話者分離の Worker でエラーが発生しました:", event.message);
+            pendingRequests.forEach((resolve, id) => resolve({ id, error: event.message }));
+            pendingRequests.clear();
+            worker?.terminate();
+            worker = null;
+        };
+    }
+    return worker;
+}
+
+/** 声の特徴を Worker で求める（Worker が使えない環境ではその場で求める） */
+function computeVoiceEmbedding(audio: DecodedAudio): Promise<VoiceEmbedding | null> {
+    const embeddingWorker = getWorker();
+    if (!embeddingWorker) {
+        return Promise.resolve(extractVoiceEmbedding(audio));
+    }
+
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+        pendingRequests.set(id, (response) => {
+            if ("error" in response) {
+                reject(new Error(response.error));
+            } else {
+                resolve(response.embedding);
+            }
+        });
+        embeddingWorker.postMessage({ id, samples: audio.samples, sampleRate: audio.sampleRate }, [
+            audio.samples.buffer,
+        ]);
+    });
+}
+
+function cosineDistance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 1;
+    return 1 - dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 話者との離れ具合（1以下なら同じ話者とみなす）
+ * スペクトルと声の高さのうち、より離れている方で判定する
+ */
+function getClusterDistance(cluster: SpeakerCluster, embedding: VoiceEmbedding): number {
+    const spectrumDistance = cosineDistance(cluster.spectrum, embedding.spectrum) / SPECTRUM_TOLERANCE;
+    if (cluster.pitch === null || embedding.pitchHz === null) return spectrumDistance;
+
+    const pitchDistance = Math.abs(cluster.pitch - Math.log2(embedding.pitchHz)) / PITCH_TOLERANCE_OCTAVES;
+    return Math.max(spectrumDistance, pitchDistance);
+}
+
+/**
+ * 届いた順に声の特徴を話者へ割り当てるオンラインのクラスタリング
+ */
+export class SpeakerClusterer {
+    private clusters: SpeakerCluster[] = [];
+
+    /**
+     * 最も近い話者を返す
+     * learn を false にすると、近い話者がいる場合に重心を更新しない（再試行で同じ音声を二重に学習しないため）
+     */
+    assign(embedding: VoiceEmbedding, learn: boolean = true): SpeakerId {
+        let nearest: SpeakerCluster | null = null;
+        let nearestDistance = Number.POSITIVE_INFINITY;
+        for (const cluster of this.clusters) {
+            const distance = getClusterDistance(cluster, embedding);
+            if (distance < nearestDistance) {
+                nearest = cluster;
+                nearestDistance = distance;
+            }
+        }
+
+        if (!nearest || (nearestDistance > 1 && this.clusters.length < MAX_SPEAKERS)) {
+            const cluster: SpeakerCluster = {
+                id: createDiarizedSpeakerId(this.clusters.length),
+                spectrum: Float32Array.from(embedding.spectrum),
+                pitch: embedding.pitchHz === null ? null : Math.log2(embedding.pitchHz),
+                count: 1,
+            };
+            this.clusters.push(cluster);
+            return cluster.id;
+        }
+
+        if (learn) {
+            this.updateCluster(nearest, embedding);
+        }
+        return nearest.id;
+    }
+
+    reset(): void {
+        this.clusters = [];
+    }
+
+    private updateCluster(cluster: SpeakerCluster, embedding: VoiceEmbedding): void {
+        const weight = Math.min(cluster.count, MAX_CLUSTER_WEIGHT);
+        for (let i = 0; i < cluster.spectrum.length; i++) {
+            cluster.spectrum[i] = (cluster.spectrum[i] * weight + embedding.spectrum[i]) / (weight + 1);
+        }
+        if (embedding.pitchHz !== null) {
+            const pitch = Math.log2(embedding.pitchHz);
+            cluster.pitch = cluster.pitch === null ? pitch : (cluster.pitch * weight + pitch) / (weight + 1);
+        }
+        cluster.count++;
+    }
+}
+
+/**
+ * CH2 の発話チャンクの話者を判定する
+ * - デコードと特徴の計算は並行して進め、話者への割り当ては呼び出した順に行う
+ *   （文字起こしの並列数に関わらず、最初に話した人が相手A になるようにする）
+ */
+export class SpeakerDiarizer {
+    private clusterer = new SpeakerClusterer();
+    private assignment: Promise<unknown> = Promise.resolve();
+
+    /**
+     * 話者を判定できなかった場合（短すぎる・デコードできない）は null
+     * 失敗したチャンクの再試行では learn を false にする（最初の試行で学習済みのため）
+     */
+    identify(blob: Blob, learn: boolean = true): Promise<SpeakerId | null> {
+        const embedding = decodeAudioFile(blob)
+            .then(computeVoiceEmbedding)
+            .catch((error) => {
+                console.warn("話者分離のための音声の解析に失敗しました:", error);
+                return null;
+            });
+
+        const speaker = this.assignment.then(async () => {
+            const result = await embedding;
+            return result ? this.clusterer.assign(result, learn) : null;
+        });
+        this.assignment = speaker;
+        return speaker;
+    }
+
+    /** これまでの話者を忘れる（次に話した人が相手A になる） */
+    reset(): void {
+        this.clusterer.reset();
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * 話者分離の特徴計算の Web Worker
+ * - FFT と自己相関はチャンクごとに数十ms〜かかるため、録音・画面描画を止めないよう Worker で行う
+ */
+
+import { extractVoiceEmbedding, type VoiceEmbeddingRequest, type VoiceEmbeddingResponse } from "@/lib/voice-embedding";
+
+function post(response: VoiceEmbeddingResponse) {
+    self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<VoiceEmbeddingRequest>) => {
+    const { id, samples, sampleRate } = event.data;
+    try {
+        post({ id, embedding: extractVoiceEmbedding({ samples, sampleRate }) });
+    } catch (error) {
+        post({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
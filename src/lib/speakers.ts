@@ -0,0 +1,152 @@
+/**
+ * 会話ログの話者と参加者名簿
+ * - 話者は文字列のIDで持つ（self: 自分 / other: 話者分離していない相手 / 相手A・相手B…: 分離した相手）
+ * - 名簿には会議ごとの参加者（名前・役割・所属）を登録し、話者IDを参加者に割り当てる
+ * - 表示・出力では割り当てた参加者の名前を使い、割り当てがなければ既定の名前（自分・相手・相手A）を使う
+ */
+
+import type { CandidateBasicInfo } from "@/hooks/useInterviewStore";
+
+export type SpeakerId = string;
+
+export interface Participant {
+    id: string;
+    name: string;
+    /** 役割（面接官・候補者・司会など） */
+    role: string;
+    /** 所属（会社名・部署など） */
+    affiliation: string;
+}
+
+export interface ParticipantRoster {
+    participants: Participant[];
+    /** 話者ID → 参加者ID */
+    assignments: Record<SpeakerId, string>;
+}
+
+export const SELF_SPEAKER: SpeakerId = "self";
+/** 話者分離していない相手（CH2・録音ファイル） */
+export const OTHER_SPEAKER: SpeakerId = "other";
+export const CANDIDATE_ROLE = "候補者";
+
+export const EMPTY_ROSTER: ParticipantRoster = { participants: [], assignments: {} };
+
+const DIARIZED_SPEAKER_PREFIX = "相手";
+const SPEAKER_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export function isSelfSpeaker(speaker: SpeakerId): boolean {
+    return speaker === SELF_SPEAKER;
+}
+
+/** 話者分離で見つけた n 番目（0始まり）の相手のID（相手A, 相手B, …） */
+export function createDiarizedSpeakerId(index: number): SpeakerId {
+    const letter = SPEAKER_LETTERS[index % SPEAKER_LETTERS.length];
+    const round = Math.floor(index / SPEAKER_LETTERS.length);
+    return `${DIARIZED_SPEAKER_PREFIX}${letter}${round > 0 ? round + 1 : ""}`;
+}
+
+export function createParticipantId(): string {
+    return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function getDefaultSpeakerLabel(speaker: SpeakerId): string {
+    if (speaker === SELF_SPEAKER) return "自分";
+    if (speaker === OTHER_SPEAKER) return "相手";
+    return speaker;
+}
+
+export function getAssignedParticipant(speaker: SpeakerId, roster: ParticipantRoster): Participant | undefined {
+    const participantId = roster.assignments[speaker];
+    return participantId ? roster.participants.find((participant) => participant.id === participantId) : undefined;
+}
+
+/** 名簿で割り当てる話者の一覧（自分・相手と、ログや割り当てに出てくる話者） */
+export function listRosterSpeakers(logSpeakers: SpeakerId[], roster: ParticipantRoster): SpeakerId[] {
+    return [...new Set([SELF_SPEAKER, OTHER_SPEAKER, ...logSpeakers, ...Object.keys(roster.assignments)])];
+}
+
+/** ログ・出力に使う話者名 */
+export function getSpeakerLabel(speaker: SpeakerId, roster: ParticipantRoster = EMPTY_ROSTER): string {
+    return getAssignedParticipant(speaker, roster)?.name.trim() || getDefaultSpeakerLabel(speaker);
+}
+
+/** 名簿の1行（例: 山田太郎（候補者・株式会社〇〇）） */
+export function describeParticipant(participant: Participant): string {
+    const details = [participant.role, participant.affiliation].map((value) => value.trim()).filter(Boolean);
+    const name = participant.name.trim() || "（名前未入力）";
+    return details.length > 0 ? `${name}（${details.join("・")}）` : name;
+}
+
+function normalizeParticipant(saved: unknown): Participant | null {
+    if (!saved || typeof saved !== "object") return null;
+
+    const participant = saved as Partial<Participant>;
+    if (typeof participant.id !== "string" || !participant.id) return null;
+    return {
+        id: participant.id,
+        name: typeof participant.name === "string" ? participant.name : "",
+        role: typeof participant.role === "string" ? participant.role : "",
+        affiliation: typeof participant.affiliation === "string" ? participant.affiliation : "",
+    };
+}
+
+/**
+ * 保存された名簿を読み込む
+ * 名簿より前に保存した話者名（話者ID → 名前）は、それぞれ参加者として取り込む
+ */
+export function normalizeRoster(saved: unknown, legacySpeakerNames?: unknown): ParticipantRoster {
+    if (saved && typeof saved === "object") {
+        const roster = saved as Partial<ParticipantRoster>;
+        const participants = Array.isArray(roster.participants)
+            ? roster.participants.map(normalizeParticipant).filter((participant) => participant !== null)
+            : [];
+        const ids = new Set(participants.map((participant) => participant.id));
+        const assignments: Record<SpeakerId, string> = {};
+        if (roster.assignments && typeof roster.assignments === "object") {
+            for (const [speaker, participantId] of Object.entries(roster.assignments)) {
+                if (typeof participantId === "string" && ids.has(participantId)) {
+                    assignments[speaker] = participantId;
+                }
+            }
+        }
+        return { participants, assignments };
+    }
+
+    if (!legacySpeakerNames || typeof legacySpeakerNames !== "object") return EMPTY_ROSTER;
+
+    const migrated: ParticipantRoster = { participants: [], assignments: {} };
+    for (const [speaker, name] of Object.entries(legacySpeakerNames)) {
+        if (typeof name !== "string" || !name.trim()) continue;
+        const id = createParticipantId();
+        migrated.participants.push({ id, name: name.trim(), role: "", affiliation: "" });
+        migrated.assignments[speaker] = id;
+    }
+    return migrated;
+}
+
+/**
+ * 候補者の基本情報から、名簿に候補者を加える
+ * すでに候補者がいる場合は変えない。相手（CH2）が未割り当てなら候補者を割り当てる
+ */
+export function addCandidateToRoster(
+    roster: ParticipantRoster,
+    info: CandidateBasicInfo | undefined
+): ParticipantRoster {
+    const name = info?.name?.trim();
+    if (!name || roster.participants.some((participant) => participant.role === CANDIDATE_ROLE)) {
+        return roster;
+    }
+
+    const candidate: Participant = {
+        id: createParticipantId(),
+        name,
+        role: CANDIDATE_ROLE,
+        affiliation: info?.currentCompany?.trim() || info?.schoolName?.trim() || "",
+    };
+    return {
+        participants: [...roster.participants, candidate],
+        assignments: roster.assignments[OTHER_SPEAKER]
+            ? roster.assignments
+            : { ...roster.assignments, [OTHER_SPEAKER]: candidate.id },
+    };
+}
@@ -1,7 +1,7 @@
 /**
  * Web Speech API ラッパー
  * - Chrome の webkitSpeechRecognition を使用
- * - 自動再接続ロジック搭載
+ * - 自動再接続ロジック搭載（エラーの種類で一時的・恒久的を分け、一時的なものは間隔を延ばしながら再接続）
  * - 確定テキストとインテリムのコールバック管理
  */
 
@@ -29,16 +29,22 @@ interface SpeechRecognitionAlternative {
     confidence: number;
 }
 
+interface SpeechRecognitionErrorEvent extends Event {
+    error: string;
+    message?: string;
+}
+
 interface SpeechRecognitionInstance extends EventTarget {
     continuous: boolean;
     interimResults: boolean;
+    maxAlternatives: number;
     lang: string;
     start(): void;
     stop(): void;
     abort(): void;
     onstart: ((this: SpeechRecognitionInstance, ev: Event) => void) | null;
     onend: ((this: SpeechRecognitionInstance, ev: Event) => void) | null;
-    onerror: ((this: SpeechRecognitionInstance, ev: Event) => void) | null;
+    onerror: ((this: SpeechRecognitionInstance, ev: SpeechRecognitionErrorEvent) => void) | null;
     onresult: ((this: SpeechRecognitionInstance, ev: SpeechRecognitionEvent) => void) | null;
 }
 
@@ -49,9 +55,87 @@ declare global {
     }
 }
 
+/** CH1（マイク）の文字起こし方法。whisper はマイクを録音して文字起こしサービスに送る */
+export type MicTranscriptionEngine = "web-speech" | "whisper";
+
+export const DEFAULT_MIC_TRANSCRIPTION_ENGINE: MicTranscriptionEngine = "web-speech";
+
+/** これより信頼度の低い確定テキストは、ログで目印を付けて候補を選べるようにする */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+/** 確定テキストごとに残す候補の数（1位を含む） */
+const MAX_ALTERNATIVES = 4;
+
+export interface FinalResultDetails {
+    /** 1位の候補の信頼度（0〜1）。ブラウザが返さない場合は未設定 */
+    confidence?: number;
+    /** 2位以下の候補 */
+    alternatives: string[];
+}
+
+/**
+ * 認識の状態
+ * - listening: 認識中
+ * - reconnecting: 一時的なエラーで、待ってから再接続する
+ * - failed: 許可がないなど、操作しないと直らないエラーで止まった
+ */
+export type SpeechRecognitionState = "idle" | "listening" | "reconnecting" | "failed";
+
+export interface SpeechRecognitionErrorInfo {
+    /** Web Speech API のエラーコード（not-allowed / network など） */
+    code: string;
+    /** 恒久的なエラー（自動では再接続しない）か */
+    permanent: boolean;
+    /** 利用者向けの対処方法 */
+    message: string;
+}
+
+export interface SpeechRecognitionStatus {
+    state: SpeechRecognitionState;
+    error?: SpeechRecognitionErrorInfo;
+    /** reconnecting の時、次に再接続するまでの待ち時間（ms） */
+    retryInMs?: number;
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+
+/** 発話がないだけ・こちらから止めただけのもの。エラーとして扱わず、すぐに再開する */
+const BENIGN_ERRORS = new Set(["no-speech", "aborted"]);
+
+const ERROR_GUIDANCE: Record<string, { permanent: boolean; message: string }> = {
+    "not-allowed": {
+        permanent: true,
+        message: "マイクの使用が許可されていません。アドレスバーのアイコンからマイクを「許可」にしてから、もう一度開始してください。",
+    },
+    "service-not-allowed": {
+        permanent: true,
+        message: "このブラウザでは音声認識サービスを利用できません。Chromeを使うか、設定で文字起こし方法をWhisperに切り替えてください。",
+    },
+    "language-not-supported": {
+        permanent: true,
+        message: "選択した認識言語はWeb Speechで使えません。設定で認識言語を変えるか、文字起こし方法をWhisperに切り替えてください。",
+    },
+    "audio-capture": {
+        permanent: false,
+        message: "マイクから音声を取得できません。マイクの接続と、ほかのアプリがマイクを使っていないかを確認してください。",
+    },
+    network: {
+        permanent: false,
+        message: "音声認識サービスに接続できません。ネットワークを確認してください。",
+    },
+};
+
+/** エラーコードを一時的・恒久的に分け、対処方法を付ける */
+export function classifySpeechError(code: string): SpeechRecognitionErrorInfo {
+    const guidance = ERROR_GUIDANCE[code];
+    return guidance
+        ? { code, ...guidance }
+        : { code, permanent: false, message: `音声認識でエラーが発生しました（${code}）。` };
+}
+
 export interface SpeechRecognitionCallbacks {
-    /** 確定テキストが得られた時のコールバック */
-    onFinalResult: (text: string) => void;
+    /** 確定テキストが得られた時のコールバック（startedAt は発話を検知し始めた時刻） */
+    onFinalResult: (text: string, startedAt: number, details: FinalResultDetails) => void;
     /** インテリム（暫定）テキストが変化した時のコールバック */
     onInterimResult: (text: string) => void;
     /** 認識開始時のコールバック */
@@ -60,16 +144,48 @@ export interface SpeechRecognitionCallbacks {
     onEnd?: () => void;
     /** エラー発生時のコールバック */
     onError?: (error: string) => void;
+    /** 認識の状態（再接続中・恒久的な失敗など）が変わった時のコールバック */
+    onStatusChange?: (status: SpeechRecognitionStatus) => void;
+}
+
+/**
+ * 確定した結果の信頼度と候補をまとめる
+ * 1つのイベントで複数の結果が確定した場合、信頼度は最も低いもの、候補は結果ごとの n 位をつなげたものにする
+ */
+function getFinalResultDetails(results: SpeechRecognitionResult[], finalText: string): FinalResultDetails {
+    // Chrome は信頼度が取れない時に 0 を返すため、0 は未設定として扱う
+    const confidences = results.map((result) => result[0].confidence).filter((value) => value > 0);
+    const alternativeCount = Math.max(...results.map((result) => result.length));
+
+    const alternatives: string[] = [];
+    for (let rank = 1; rank < alternativeCount; rank++) {
+        const text = results.map((result) => (result[rank] ?? result[0]).transcript).join("").trim();
+        if (text && text !== finalText.trim() && !alternatives.includes(text)) {
+            alternatives.push(text);
+        }
+    }
+
+    return {
+        confidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+        alternatives,
+    };
 }
 
 /**
  * 音声認識エンジン（CH1: マイク用）
- * Web Speech API を使ってリアルタイムに日本語音声を認識する
+ * Web Speech API を使ってリアルタイムに音声を認識する（言語は setLanguage で指定、既定は日本語）
  */
 export class SpeechRecognitionEngine {
     private recognition: SpeechRecognitionInstance | null = null;
     private isRunning = false;
     private shouldRestart = false;
+    private utteranceStartedAt: number | null = null;
+    private language = "ja-JP";
+    /** onerror で受け取り、続く onend で再接続の仕方を決めるエラー */
+    private pendingError: SpeechRecognitionErrorInfo | null = null;
+    /** 続けて失敗した回数（結果が届いたら 0 に戻す） */
+    private failureCount = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
     private callbacks: SpeechRecognitionCallbacks;
 
     constructor(callbacks: SpeechRecognitionCallbacks) {
@@ -82,6 +198,25 @@ export class SpeechRecognitionEngine {
         return !!(window.webkitSpeechRecognition || window.SpeechRecognition);
     }
 
+    /**
+     * 認識言語（ja-JP などのロケール）を変える
+     * 認識中なら一度止め、onend の自動再接続で新しい言語に切り替える
+     */
+    setLanguage(locale: string): void {
+        if (this.language === locale) return;
+        this.language = locale;
+        if (!this.recognition) return;
+
+        this.recognition.lang = locale;
+        if (this.isRunning) {
+            try {
+                this.recognition.stop();
+            } catch {
+                // 無視
+            }
+        }
+    }
+
     /** 認識を開始する */
     start(): boolean {
         if (!SpeechRecognitionEngine.isSupported()) {
@@ -91,62 +226,84 @@ export class SpeechRecognitionEngine {
 
         if (this.isRunning) return true;
 
+        this.clearReconnectTimer();
+        this.pendingError = null;
+        this.failureCount = 0;
         const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition;
         this.recognition = new SpeechRecognition();
         this.recognition.continuous = true;
         this.recognition.interimResults = true;
-        this.recognition.lang = "ja-JP";
+        this.recognition.maxAlternatives = MAX_ALTERNATIVES;
+        this.recognition.lang = this.language;
 
         this.recognition.onstart = () => {
             this.isRunning = true;
+            // 失敗回数は結果が届くまで戻さず、開始直後に失敗し続ける場合も間隔を延ばす
+            this.setStatus({ state: "listening" });
             this.callbacks.onStart?.();
         };
 
         this.recognition.onend = () => {
             this.isRunning = false;
-            // shouldRestart が true なら自動再接続
-            if (this.shouldRestart) {
-                try {
-                    this.recognition?.start();
-                } catch {
-                    // 連続 start によるエラーを無視
-                }
-            } else {
+            const error = this.pendingError;
+            this.pendingError = null;
+
+            if (!this.shouldRestart) {
+                this.setStatus({ state: "idle" });
                 this.callbacks.onEnd?.();
+                return;
             }
-        };
 
-        this.recognition.onerror = () => {
-            // ネットワークエラー等でも自動復帰を試みる
-            if (this.shouldRestart) {
-                setTimeout(() => {
-                    try {
-                        this.recognition?.start();
-                    } catch {
-                        // 無視
-                    }
-                }, 1000);
+            if (error?.permanent) {
+                this.shouldRestart = false;
+                this.setStatus({ state: "failed", error });
+                this.callbacks.onEnd?.();
+                return;
+            }
+
+            if (error) {
+                this.scheduleReconnect(error);
+                return;
             }
+
+            // 発話の区切りなどで止まっただけなので、すぐに再開する
+            this.restartRecognition();
+        };
+
+        this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+            if (BENIGN_ERRORS.has(event.error)) return;
+
+            console.warn("音声認識エラー:", event.error, event.message ?? "");
+            this.pendingError = classifySpeechError(event.error);
         };
 
         this.recognition.onresult = (event: SpeechRecognitionEvent) => {
             let finalText = "";
             let interimText = "";
+            const finalResults: SpeechRecognitionResult[] = [];
+            // 最初の結果が届いた時刻を発話開始時刻の近似として使う
+            const startedAt = this.utteranceStartedAt ?? Date.now();
 
             for (let i = event.resultIndex; i < event.results.length; i++) {
                 const result = event.results[i];
                 if (result.isFinal) {
                     finalText += result[0].transcript;
+                    finalResults.push(result);
                 } else {
                     interimText += result[0].transcript;
                 }
             }
 
+            // 結果が届いたら接続は回復している
+            this.failureCount = 0;
+
             if (interimText) {
+                this.utteranceStartedAt = startedAt;
                 this.callbacks.onInterimResult(interimText);
             }
             if (finalText) {
-                this.callbacks.onFinalResult(finalText);
+                this.utteranceStartedAt = interimText ? Date.now() : null;
+                this.callbacks.onFinalResult(finalText, startedAt, getFinalResultDetails(finalResults, finalText));
                 this.callbacks.onInterimResult(""); // インテリムをクリア
             }
         };
@@ -164,6 +321,8 @@ export class SpeechRecognitionEngine {
     /** 認識を停止する */
     stop(): void {
         this.shouldRestart = false;
+        this.clearReconnectTimer();
+        this.setStatus({ state: "idle" });
         if (this.recognition) {
             try {
                 this.recognition.stop();
@@ -174,6 +333,40 @@ export class SpeechRecognitionEngine {
         this.isRunning = false;
     }
 
+    private restartRecognition(): void {
+        try {
+            this.recognition?.start();
+        } catch {
+            // 連続 start によるエラーを無視
+        }
+    }
+
+    /** 一時的なエラーの後、間隔を倍にしながら（上限あり）再接続する */
+    private scheduleReconnect(error: SpeechRecognitionErrorInfo): void {
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.failureCount, RECONNECT_MAX_DELAY_MS);
+        this.failureCount += 1;
+        this.setStatus({ state: "reconnecting", error, retryInMs: delay });
+
+        this.clearReconnectTimer();
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.shouldRestart) {
+                this.restartRecognition();
+            }
+        }, delay);
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private setStatus(status: SpeechRecognitionStatus): void {
+        this.callbacks.onStatusChange?.(status);
+    }
+
     /** 現在認識中かどうかを返す */
     getIsRunning(): boolean {
         return this.isRunning || this.shouldRestart;
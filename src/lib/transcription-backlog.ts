@@ -0,0 +1,271 @@
+/**
+ * 文字起こしの再試行バックログ
+ * - 文字起こしに失敗したシステム音声チャンクを IndexedDB に保存し、指数バックオフで再試行する
+ * - 429 の retry-after は指数バックオフより優先する
+ * - 復旧したテキストは録音時刻付きで返し、ログの正しい位置に挿入できるようにする
+ * - 保存はブラウザを閉じても残り、次回起動時に再試行を再開する
+ */
+
+import type { SystemAudioChunk } from "@/lib/audio-capture";
+import type { CaptureChannel } from "@/lib/capture-health";
+import { isIndexedDbSupported, openDatabase, requestToPromise, transactionDone } from "@/lib/indexed-db";
+import { TranscriptionError, type TranscriptionResult } from "@/lib/whisper-api";
+
+interface BacklogItem {
+    id: string;
+    blob: Blob;
+    /** チャンクの録音開始時刻（epoch ms） */
+    timestamp: number;
+    endedAt?: number;
+    /** 旧データには存在しない（CH2 として扱う） */
+    channel?: CaptureChannel;
+    attempts: number;
+    nextAttemptAt: number;
+    /** false のもの（APIキー誤りなど）は手動の再試行を待つ */
+    autoRetry: boolean;
+    lastError: string;
+}
+
+export interface TranscriptionBacklogOptions {
+    transcribe: (chunk: SystemAudioChunk, channel: CaptureChannel) => Promise<TranscriptionResult | null>;
+    /** 再試行で文字起こしできた時 */
+    onRecovered: (chunk: SystemAudioChunk, result: TranscriptionResult, channel: CaptureChannel) => void;
+    /** 保留中の件数が変わった時 */
+    onCountChange?: (count: number) => void;
+}
+
+const DB_NAME = "gijiroku_transcription_backlog";
+const DB_VERSION = 1;
+const ITEM_STORE = "items";
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60_000;
+const BACKOFF_JITTER = 0.2;
+
+// 同じページ内の複数インスタンスと、clearTranscriptionBacklog() の変更を伝える
+const changeListeners = new Set<() => void>();
+
+function notifyBacklogChanged(): void {
+    changeListeners.forEach((listener) => listener());
+}
+
+function openBacklogDb(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(ITEM_STORE)) {
+            db.createObjectStore(ITEM_STORE, { keyPath: "id" });
+        }
+    });
+}
+
+async function listItems(): Promise<BacklogItem[]> {
+    if (!isIndexedDbSupported()) return [];
+
+    const db = await openBacklogDb();
+    const transaction = db.transaction(ITEM_STORE, "readonly");
+    const items = await requestToPromise(transaction.objectStore(ITEM_STORE).getAll() as IDBRequest<BacklogItem[]>);
+    return items.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+async function putItem(item: BacklogItem): Promise<void> {
+    const db = await openBacklogDb();
+    const transaction = db.transaction(ITEM_STORE, "readwrite");
+    transaction.objectStore(ITEM_STORE).put(item);
+    await transactionDone(transaction);
+}
+
+async function deleteItem(id: string): Promise<void> {
+    const db = await openBacklogDb();
+    const transaction = db.transaction(ITEM_STORE, "readwrite");
+    transaction.objectStore(ITEM_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/** バックログをすべて削除 */
+export async function clearTranscriptionBacklog(): Promise<void> {
+    if (!isIndexedDbSupported()) return;
+
+    try {
+        const db = await openBacklogDb();
+        const transaction = db.transaction(ITEM_STORE, "readwrite");
+        transaction.objectStore(ITEM_STORE).clear();
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error("文字起こしバックログの削除に失敗しました:", error);
+    }
+    notifyBacklogChanged();
+}
+
+/** 失敗回数に応じた次回までの待ち時間（ゆらぎ付き） */
+function getBackoffMs(attempts: number): number {
+    const base = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+    const jitter = 1 + (Math.random() * 2 - 1) * BACKOFF_JITTER;
+    return Math.round(base * jitter);
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 失敗したチャンクをバックログに追加
+ * 再試行は画面上の TranscriptionBacklog が行う
+ */
+export async function addToTranscriptionBacklog(
+    chunk: SystemAudioChunk,
+    error: unknown,
+    channel: CaptureChannel = "system"
+): Promise<void> {
+    if (!isIndexedDbSupported()) return;
+
+    const retryable = !(error instanceof TranscriptionError) || error.retryable;
+    const retryAfterMs = error instanceof TranscriptionError ? error.retryAfterMs : undefined;
+
+    try {
+        await putItem({
+            id: `${chunk.timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+            blob: chunk.blob,
+            timestamp: chunk.timestamp,
+            endedAt: chunk.endedAt,
+            channel,
+            attempts: 1,
+            nextAttemptAt: Date.now() + (retryAfterMs ?? getBackoffMs(1)),
+            autoRetry: retryable,
+            lastError: describeError(error),
+        });
+    } catch (storeError) {
+        console.error("文字起こしバックログへの保存に失敗しました:", storeError);
+    }
+    notifyBacklogChanged();
+}
+
+export class TranscriptionBacklog {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private processing = false;
+    private disposed = false;
+    private count = 0;
+
+    constructor(private readonly options: TranscriptionBacklogOptions) {
+        changeListeners.add(this.handleChange);
+        if (typeof window !== "undefined") {
+            window.addEventListener("online", this.handleOnline);
+        }
+        this.handleChange();
+    }
+
+    /** 保留中の件数 */
+    getCount(): number {
+        return this.count;
+    }
+
+    /** すべての保留中チャンクを今すぐ再試行 */
+    async retryNow(): Promise<void> {
+        const now = Date.now();
+        const items = await listItems();
+        for (const item of items) {
+            await putItem({ ...item, nextAttemptAt: now, autoRetry: true });
+        }
+        await this.process();
+    }
+
+    /** タイマーとイベントを解除 */
+    dispose(): void {
+        this.disposed = true;
+        changeListeners.delete(this.handleChange);
+        if (typeof window !== "undefined") {
+            window.removeEventListener("online", this.handleOnline);
+        }
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private handleChange = () => {
+        void this.refresh();
+    };
+
+    private handleOnline = () => {
+        void this.retryNow();
+    };
+
+    /** 件数を読み直して、次の再試行を予約する */
+    private async refresh(): Promise<void> {
+        if (this.disposed) return;
+
+        let items: BacklogItem[] = [];
+        try {
+            items = await listItems();
+        } catch (error) {
+            console.error("文字起こしバックログの読み込みに失敗しました:", error);
+        }
+
+        if (items.length !== this.count) {
+            this.count = items.length;
+            this.options.onCountChange?.(this.count);
+        }
+        this.schedule(items);
+    }
+
+    private schedule(items: BacklogItem[]): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.disposed || this.processing) return;
+
+        const next = items
+            .filter((item) => item.autoRetry)
+            .reduce((min, item) => Math.min(min, item.nextAttemptAt), Number.POSITIVE_INFINITY);
+        if (!Number.isFinite(next)) return;
+
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.process();
+        }, Math.max(0, next - Date.now()));
+    }
+
+    /** 期限の来たチャンクを録音順に1件ずつ再試行する */
+    private async process(): Promise<void> {
+        if (this.processing || this.disposed) return;
+        this.processing = true;
+
+        try {
+            while (!this.disposed) {
+                const now = Date.now();
+                const due = (await listItems()).find((item) => item.autoRetry && item.nextAttemptAt <= now);
+                if (!due) break;
+                await this.attempt(due);
+            }
+        } catch (error) {
+            console.error("文字起こしバックログの処理に失敗しました:", error);
+        } finally {
+            this.processing = false;
+        }
+
+        await this.refresh();
+    }
+
+    private async attempt(item: BacklogItem): Promise<void> {
+        const chunk: SystemAudioChunk = { blob: item.blob, timestamp: item.timestamp, endedAt: item.endedAt };
+
+        try {
+            const channel = item.channel ?? "system";
+            const result = await this.options.transcribe(chunk, channel);
+            await deleteItem(item.id);
+            if (result) {
+                this.options.onRecovered(chunk, result, channel);
+            }
+        } catch (error) {
+            const attempts = item.attempts + 1;
+            const retryable = !(error instanceof TranscriptionError) || error.retryable;
+            const retryAfterMs = error instanceof TranscriptionError ? error.retryAfterMs : undefined;
+            await putItem({
+                ...item,
+                attempts,
+                nextAttemptAt: Date.now() + (retryAfterMs ?? getBackoffMs(attempts)),
+                autoRetry: retryable,
+                lastError: describeError(error),
+            });
+        }
+        notifyBacklogChanged();
+    }
+}
@@ -0,0 +1,217 @@
+/**
+ * 文字起こしプロバイダー
+ * - Groq / OpenAI 互換サーバー（faster-whisper・whisper.cpp など）/ ブラウザ内 Whisper / モックを同じ形で扱う
+ * - 録音・バックログ・ファイル取り込みはこのインターフェースだけを使う
+ */
+
+import { encodeWavChunk } from "@/lib/audio-import";
+import { testGroqConnection, transcribeWithGroq } from "@/lib/groq-service";
+import {
+  DEFAULT_LOCAL_WHISPER_MODEL,
+  getLocalWhisperModel,
+  isLocalWhisperSupported,
+  loadLocalWhisperModel,
+  normalizeLocalWhisperModel,
+  transcribeLocally,
+  type LocalWhisperModelId,
+} from "@/lib/local-whisper";
+import type { RecognitionLanguage } from "@/lib/recognition-language";
+import {
+  normalizeBaseUrl,
+  requestWhisperTranscription,
+  type TranscriptionResult,
+  type WhisperTuning,
+} from "@/lib/whisper-api";
+
+export type TranscriptionProviderId = "groq" | "openai-compatible" | "local" | "mock";
+
+/** Groq 以外のプロバイダーの設定（Groq のAPIキーは従来どおり groqApiKey に保存する） */
+export interface TranscriptionProviderSettings {
+  provider: TranscriptionProviderId;
+  /** OpenAI 互換サーバーのベースURL（/audio/transcriptions の手前まで） */
+  baseUrl: string;
+  /** OpenAI 互換サーバーのAPIキー（認証なしなら空） */
+  apiKey: string;
+  model: string;
+  /** ブラウザ内 Whisper のモデル（速度と精度のどちらを優先するか） */
+  localModel: LocalWhisperModelId;
+}
+
+export interface TranscribeOptions {
+  /** 途中経過の文字起こし。除いた区間の一覧に載せず、使用量は内訳として別に数える */
+  partial?: boolean;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  /** 画面表示用の名前 */
+  label: string;
+  /** 文字起こしに必要な設定がそろっているか */
+  isConfigured(): boolean;
+  /** 無音・ハルシネーションは null、失敗は TranscriptionError を投げる */
+  transcribe(
+    audioBlob: Blob,
+    language: RecognitionLanguage,
+    options?: TranscribeOptions
+  ): Promise<TranscriptionResult | null>;
+  testConnection(): Promise<{ success: boolean; message: string }>;
+}
+
+export const TRANSCRIPTION_PROVIDER_OPTIONS: { value: TranscriptionProviderId; label: string }[] = [
+  { value: "groq", label: "Groq（whisper-large-v3）" },
+  { value: "openai-compatible", label: "OpenAI互換サーバー（セルフホスト）" },
+  { value: "local", label: "ブラウザ内Whisper（オフライン・APIキー不要）" },
+  { value: "mock", label: "モック（動作確認用）" },
+];
+
+export const DEFAULT_TRANSCRIPTION_PROVIDER_SETTINGS: TranscriptionProviderSettings = {
+  provider: "groq",
+  baseUrl: "http://localhost:8000/v1",
+  apiKey: "",
+  model: "whisper-1",
+  localModel: DEFAULT_LOCAL_WHISPER_MODEL,
+};
+
+const MOCK_DELAY_MS = 400;
+const TEST_AUDIO_SAMPLE_RATE = 16000;
+
+export function normalizeTranscriptionProviderSettings(
+  saved: Partial<TranscriptionProviderSettings> | undefined
+): TranscriptionProviderSettings {
+  const defaults = DEFAULT_TRANSCRIPTION_PROVIDER_SETTINGS;
+  return {
+    provider: TRANSCRIPTION_PROVIDER_OPTIONS.some((option) => option.value === saved?.provider)
+      ? (saved?.provider as TranscriptionProviderId)
+      : defaults.provider,
+    baseUrl: typeof saved?.baseUrl === "string" ? saved.baseUrl : defaults.baseUrl,
+    apiKey: typeof saved?.apiKey === "string" ? saved.apiKey : defaults.apiKey,
+    model: typeof saved?.model === "string" && saved.model ? saved.model : defaults.model,
+    localModel: normalizeLocalWhisperModel(saved?.localModel),
+  };
+}
+
+function createGroqProvider(groqApiKey: string, tuning: WhisperTuning): TranscriptionProvider {
+  return {
+    id: "groq",
+    label: "Groq",
+    isConfigured: () => Boolean(groqApiKey),
+    transcribe: (audioBlob, language, options) =>
+      transcribeWithGroq(audioBlob, groqApiKey, language, tuning, options?.partial),
+    testConnection: () => testGroqConnection(groqApiKey),
+  };
+}
+
+/** 接続テスト用の1秒の無音 WAV */
+function createSilentTestAudio(): Blob {
+  const samples = new Float32Array(TEST_AUDIO_SAMPLE_RATE);
+  return encodeWavChunk(
+    { samples, sampleRate: TEST_AUDIO_SAMPLE_RATE, durationMs: 1000 },
+    { startSample: 0, endSample: samples.length, offsetMs: 0 }
+  );
+}
+
+function createOpenAiCompatibleProvider(
+  settings: TranscriptionProviderSettings,
+  tuning: WhisperTuning
+): TranscriptionProvider {
+  const transcribe = (audioBlob: Blob, language: RecognitionLanguage, options?: TranscribeOptions) =>
+    requestWhisperTranscription(audioBlob, {
+      baseUrl: settings.baseUrl,
+      apiKey: settings.apiKey || undefined,
+      model: settings.model,
+      language,
+      ...tuning,
+      serviceName: "文字起こしサーバー",
+      partial: options?.partial,
+    });
+
+  return {
+    id: "openai-compatible",
+    label: "OpenAI互換サーバー",
+    isConfigured: () => Boolean(normalizeBaseUrl(settings.baseUrl) && settings.model),
+    transcribe,
+    // /models を持たないサーバーもあるため、実際に無音を送って確かめる
+    testConnection: async () => {
+      if (!normalizeBaseUrl(settings.baseUrl)) {
+        return { success: false, message: "サーバーのURLが未入力です。" };
+      }
+
+      try {
+        await transcribe(createSilentTestAudio(), "ja");
+        return { success: true, message: `${normalizeBaseUrl(settings.baseUrl)} に接続できました。` };
+      } catch (error) {
+        return {
+          success: false,
+          message: `接続エラー: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * ブラウザ内 Whisper。音声を外部に送らない
+ * モデルが未ダウンロードなら最初の文字起こしでダウンロードする（設定画面から先にダウンロードしておける）
+ */
+function createLocalProvider(
+  settings: TranscriptionProviderSettings,
+  tuning: WhisperTuning
+): TranscriptionProvider {
+  const model = getLocalWhisperModel(settings.localModel);
+  return {
+    id: "local",
+    label: "ブラウザ内Whisper",
+    isConfigured: () => isLocalWhisperSupported(),
+    transcribe: (audioBlob, language, options) =>
+      transcribeLocally(audioBlob, settings.localModel, language, tuning, options?.partial),
+    testConnection: async () => {
+      try {
+        await loadLocalWhisperModel(settings.localModel);
+        return { success: true, message: `${model.label}のモデルを読み込みました。` };
+      } catch (error) {
+        return {
+          success: false,
+          message: `モデルを読み込めません: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+  };
+}
+
+/** 通信せずに固定の文を返す。UI やバックログの動作確認に使う */
+function createMockProvider(): TranscriptionProvider {
+  return {
+    id: "mock",
+    label: "モック",
+    isConfigured: () => true,
+    transcribe: async (audioBlob, language) => {
+      await new Promise((resolve) => setTimeout(resolve, MOCK_DELAY_MS));
+      return {
+        text: `（モック文字起こし: ${Math.round(audioBlob.size / 1024)}KB）`,
+        language: language === "auto" ? "ja" : language,
+      };
+    },
+    testConnection: async () => ({ success: true, message: "モックは常に利用できます。" }),
+  };
+}
+
+/**
+ * 設定からプロバイダーを作る
+ * tuning は用語辞書の prompt とハルシネーション対策の定型句（モックでは使わない）
+ */
+export function createTranscriptionProvider(
+  settings: TranscriptionProviderSettings,
+  groqApiKey: string,
+  tuning: WhisperTuning = {}
+): TranscriptionProvider {
+  switch (settings.provider) {
+    case "openai-compatible":
+      return createOpenAiCompatibleProvider(settings, tuning);
+    case "local":
+      return createLocalProvider(settings, tuning);
+    case "mock":
+      return createMockProvider();
+    default:
+      return createGroqProvider(groqApiKey, tuning);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * システム音声チャンクの文字起こしキュー
+ * - 同時に投げるリクエスト数を制限する
+ * - 応答の順番に関わらず、録音開始時刻（SystemAudioChunk.timestamp）の順で結果を返す
+ */
+
+import type { SystemAudioChunk } from "@/lib/audio-capture";
+import type { TranscriptionResult } from "@/lib/whisper-api";
+
+export interface TranscriptionQueueOptions {
+    /** 同時に実行する文字起こしの最大数 */
+    concurrency?: number;
+    /** 1チャンクを文字起こしする */
+    transcribe: (chunk: SystemAudioChunk) => Promise<TranscriptionResult | null>;
+    /** 録音順に結果を受け取る（失敗・無音は result が null） */
+    onResult: (chunk: SystemAudioChunk, result: TranscriptionResult | null) => void;
+    /** 文字起こしに失敗した時（結果は null として順番に返す） */
+    onError?: (chunk: SystemAudioChunk, error: unknown) => void;
+    /** 未完了のチャンク数が変わった時 */
+    onPendingChange?: (pending: number) => void;
+}
+
+interface QueueEntry {
+    chunk: SystemAudioChunk;
+    status: "waiting" | "running" | "done";
+    result: TranscriptionResult | null;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * 文字起こし結果の発話範囲（epoch ms）
+ * Whisper の区間情報があればチャンクの録音開始時刻にそのオフセットを足し、なければチャンク全体とする
+ */
+export function getSpokenRange(
+    chunk: SystemAudioChunk,
+    result: TranscriptionResult
+): { startedAt: number; endedAt?: number } {
+    return {
+        startedAt: chunk.timestamp + (result.startMs ?? 0),
+        endedAt: typeof result.endMs === "number" ? chunk.timestamp + result.endMs : chunk.endedAt,
+    };
+}
+
+export class TranscriptionQueue {
+    private entries: QueueEntry[] = [];
+    private running = 0;
+    private readonly concurrency: number;
+
+    constructor(private readonly options: TranscriptionQueueOptions) {
+        this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    }
+
+    /** チャンクを追加（録音開始時刻の順に並べる） */
+    enqueue(chunk: SystemAudioChunk): void {
+        const entry: QueueEntry = { chunk, status: "waiting", result: null };
+        const index = this.entries.findIndex((item) => item.chunk.timestamp > chunk.timestamp);
+        if (index < 0) {
+            this.entries.push(entry);
+        } else {
+            this.entries.splice(index, 0, entry);
+        }
+
+        this.notifyPending();
+        this.pump();
+    }
+
+    /** 未完了のチャンク数 */
+    getPendingCount(): number {
+        return this.entries.length;
+    }
+
+    /** 待機中のチャンクを破棄（実行中のものは結果を捨てる） */
+    clear(): void {
+        this.entries = [];
+        this.notifyPending();
+    }
+
+    private pump(): void {
+        while (this.running < this.concurrency) {
+            const entry = this.entries.find((item) => item.status === "waiting");
+            if (!entry) return;
+            void this.run(entry);
+        }
+    }
+
+    private async run(entry: QueueEntry): Promise<void> {
+        entry.status = "running";
+        this.running += 1;
+
+        try {
+            entry.result = await this.options.transcribe(entry.chunk);
+        } catch (error) {
+            console.error("相手音声の文字起こしに失敗しました:", error);
+            entry.result = null;
+            this.options.onError?.(entry.chunk, error);
+        } finally {
+            entry.status = "done";
+            this.running -= 1;
+        }
+
+        this.release();
+        this.pump();
+    }
+
+    /** 先頭から完了済みのものだけを順番に返す */
+    private release(): void {
+        let released = false;
+        while (this.entries[0]?.status === "done") {
+            const entry = this.entries.shift();
+            if (!entry) break;
+            released = true;
+            this.options.onResult(entry.chunk, entry.result);
+        }
+        if (released) {
+            this.notifyPending();
+        }
+    }
+
+    private notifyPending(): void {
+        this.options.onPendingChange?.(this.entries.length);
+    }
+}
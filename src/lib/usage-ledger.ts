@@ -0,0 +1,400 @@
+/**
+ * Groq・Gemini・OpenAI 互換API の使用量の記録と上限
+ * - 送ったリクエストは失敗しても1回と数え、Groq の音声の長さと Gemini・OpenAI 互換API のトークン数は応答が返した分だけ記録する
+ * - Ollama はローカルで動き料金がかからないため記録しない
+ * - Groq の途中経過の文字起こしは合計に含めたうえで、内訳として別にも数える
+ * - この面接（リセットまで）と、月ごとの合計を持つ。月ごとの合計は直近12か月分だけ残す
+ * - 上限の8割で警告し、上限に達したらそのサービスへの送信を止める
+ * - 会話ログとは別の localStorage に保存し、リセットしても月ごとの合計と上限は消さない
+ */
+
+export type UsageService = "groq" | "gemini" | "openai";
+export type UsageScope = "session" | "month";
+export type BudgetLevel = "warning" | "blocked";
+
+export interface UsageTotals {
+    groqRequests: number;
+    /** 課金対象の音声の長さ（秒） */
+    groqAudioSeconds: number;
+    /** groqRequests のうち、途中経過の文字起こし */
+    groqPartialRequests: number;
+    /** groqAudioSeconds のうち、途中経過の文字起こし（秒） */
+    groqPartialAudioSeconds: number;
+    geminiRequests: number;
+    geminiPromptTokens: number;
+    /** 出力トークン（思考トークンを含む） */
+    geminiOutputTokens: number;
+    geminiTotalTokens: number;
+    openAiRequests: number;
+    openAiPromptTokens: number;
+    openAiOutputTokens: number;
+    openAiTotalTokens: number;
+}
+
+/** 使用量の上限。0 は上限なし */
+export interface UsageBudget {
+    sessionGroqMinutes: number;
+    monthlyGroqMinutes: number;
+    sessionGeminiTokens: number;
+    monthlyGeminiTokens: number;
+    sessionOpenAiTokens: number;
+    monthlyOpenAiTokens: number;
+}
+
+export interface UsageLedger {
+    session: UsageTotals;
+    /** この面接の記録を始めた時刻（epoch ms） */
+    sessionStartedAt: number;
+    /** 月（YYYY-MM）ごとの合計 */
+    months: Record<string, UsageTotals>;
+    budget: UsageBudget;
+}
+
+export interface BudgetStatus {
+    service: UsageService;
+    scope: UsageScope;
+    level: BudgetLevel;
+    message: string;
+}
+
+/** Gemini の応答の usageMetadata（使うものだけ） */
+export interface GeminiUsageMetadata {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+}
+
+/** OpenAI 互換の /chat/completions の応答の usage（使うものだけ） */
+export interface OpenAiUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+}
+
+const STORAGE_KEY = "interview_hub_usage_v1";
+/** 上限に対してこの割合を超えたら警告する */
+const WARNING_RATIO = 0.8;
+const MAX_MONTHS = 12;
+/** Groq は1リクエストあたり最低10秒分を課金する */
+const GROQ_MIN_BILLED_SECONDS = 10;
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+    groqRequests: 0,
+    groqAudioSeconds: 0,
+    groqPartialRequests: 0,
+    groqPartialAudioSeconds: 0,
+    geminiRequests: 0,
+    geminiPromptTokens: 0,
+    geminiOutputTokens: 0,
+    geminiTotalTokens: 0,
+    openAiRequests: 0,
+    openAiPromptTokens: 0,
+    openAiOutputTokens: 0,
+    openAiTotalTokens: 0,
+};
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+    sessionGroqMinutes: 0,
+    monthlyGroqMinutes: 0,
+    sessionGeminiTokens: 0,
+    monthlyGeminiTokens: 0,
+    sessionOpenAiTokens: 0,
+    monthlyOpenAiTokens: 0,
+};
+
+const EMPTY_LEDGER: UsageLedger = {
+    session: EMPTY_USAGE_TOTALS,
+    sessionStartedAt: 0,
+    months: {},
+    budget: DEFAULT_USAGE_BUDGET,
+};
+
+const SERVICE_LABELS: Record<UsageService, string> = {
+    groq: "Groqの音声",
+    gemini: "Geminiのトークン",
+    openai: "OpenAI互換APIのトークン",
+};
+
+const SCOPE_LABELS: Record<UsageScope, string> = {
+    session: "この面接",
+    month: "今月",
+};
+
+let ledger: UsageLedger | null = null;
+const listeners = new Set<() => void>();
+
+function toCount(value: unknown): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function normalizeTotals(saved: unknown): UsageTotals {
+    const totals = (saved && typeof saved === "object" ? saved : {}) as Partial<UsageTotals>;
+    return {
+        groqRequests: toCount(totals.groqRequests),
+        groqAudioSeconds: toCount(totals.groqAudioSeconds),
+        groqPartialRequests: toCount(totals.groqPartialRequests),
+        groqPartialAudioSeconds: toCount(totals.groqPartialAudioSeconds),
+        geminiRequests: toCount(totals.geminiRequests),
+        geminiPromptTokens: toCount(totals.geminiPromptTokens),
+        geminiOutputTokens: toCount(totals.geminiOutputTokens),
+        geminiTotalTokens: toCount(totals.geminiTotalTokens),
+        openAiRequests: toCount(totals.openAiRequests),
+        openAiPromptTokens: toCount(totals.openAiPromptTokens),
+        openAiOutputTokens: toCount(totals.openAiOutputTokens),
+        openAiTotalTokens: toCount(totals.openAiTotalTokens),
+    };
+}
+
+function normalizeBudget(saved: unknown): UsageBudget {
+    const budget = (saved && typeof saved === "object" ? saved : {}) as Partial<UsageBudget>;
+    return {
+        sessionGroqMinutes: toCount(budget.sessionGroqMinutes),
+        monthlyGroqMinutes: toCount(budget.monthlyGroqMinutes),
+        sessionGeminiTokens: toCount(budget.sessionGeminiTokens),
+        monthlyGeminiTokens: toCount(budget.monthlyGeminiTokens),
+        sessionOpenAiTokens: toCount(budget.sessionOpenAiTokens),
+        monthlyOpenAiTokens: toCount(budget.monthlyOpenAiTokens),
+    };
+}
+
+function normalizeLedger(saved: unknown): UsageLedger {
+    if (!saved || typeof saved !== "object") {
+        return { ...EMPTY_LEDGER, sessionStartedAt: Date.now() };
+    }
+
+    const data = saved as Partial<UsageLedger>;
+    const months: Record<string, UsageTotals> = {};
+    if (data.months && typeof data.months === "object") {
+        for (const [month, totals] of Object.entries(data.months)) {
+            if (/^\d{4}-\d{2}$/.test(month)) {
+                months[month] = normalizeTotals(totals);
+            }
+        }
+    }
+    return {
+        session: normalizeTotals(data.session),
+        sessionStartedAt: toCount(data.sessionStartedAt) || Date.now(),
+        months,
+        budget: normalizeBudget(data.budget),
+    };
+}
+
+function loadLedger(): UsageLedger {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return normalizeLedger(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+        console.error("使用量の読み込みに失敗しました:", error);
+        return normalizeLedger(null);
+    }
+}
+
+function updateLedger(update: (current: UsageLedger) => UsageLedger) {
+    ledger = update(getUsageLedger());
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(ledger));
+    } catch (error) {
+        console.error("使用量の保存に失敗しました:", error);
+    }
+    listeners.forEach((listener) => listener());
+}
+
+function addTotals(totals: UsageTotals, usage: Partial<UsageTotals>): UsageTotals {
+    return {
+        groqRequests: totals.groqRequests + (usage.groqRequests ?? 0),
+        groqAudioSeconds: totals.groqAudioSeconds + (usage.groqAudioSeconds ?? 0),
+        groqPartialRequests: totals.groqPartialRequests + (usage.groqPartialRequests ?? 0),
+        groqPartialAudioSeconds: totals.groqPartialAudioSeconds + (usage.groqPartialAudioSeconds ?? 0),
+        geminiRequests: totals.geminiRequests + (usage.geminiRequests ?? 0),
+        geminiPromptTokens: totals.geminiPromptTokens + (usage.geminiPromptTokens ?? 0),
+        geminiOutputTokens: totals.geminiOutputTokens + (usage.geminiOutputTokens ?? 0),
+        geminiTotalTokens: totals.geminiTotalTokens + (usage.geminiTotalTokens ?? 0),
+        openAiRequests: totals.openAiRequests + (usage.openAiRequests ?? 0),
+        openAiPromptTokens: totals.openAiPromptTokens + (usage.openAiPromptTokens ?? 0),
+        openAiOutputTokens: totals.openAiOutputTokens + (usage.openAiOutputTokens ?? 0),
+        openAiTotalTokens: totals.openAiTotalTokens + (usage.openAiTotalTokens ?? 0),
+    };
+}
+
+function recordUsage(usage: Partial<UsageTotals>) {
+    const month = getCurrentMonthKey();
+    updateLedger((current) => {
+        const months = {
+            ...current.months,
+            [month]: addTotals(current.months[month] ?? EMPTY_USAGE_TOTALS, usage),
+        };
+        const recentMonths = Object.keys(months).sort().slice(-MAX_MONTHS);
+        return {
+            ...current,
+            session: addTotals(current.session, usage),
+            months: Object.fromEntries(recentMonths.map((key) => [key, months[key]])),
+        };
+    });
+}
+
+/** 今月（ローカル時刻）の YYYY-MM */
+export function getCurrentMonthKey(date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** 現在の記録（ブラウザ以外では空の記録） */
+export function getUsageLedger(): UsageLedger {
+    if (typeof window === "undefined") return EMPTY_LEDGER;
+    if (!ledger) {
+        ledger = loadLedger();
+    }
+    return ledger;
+}
+
+/** サーバー描画用の空の記録 */
+export function getEmptyUsageLedger(): UsageLedger {
+    return EMPTY_LEDGER;
+}
+
+export function subscribeUsageLedger(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getMonthUsage(current: UsageLedger, month = getCurrentMonthKey()): UsageTotals {
+    return current.months[month] ?? EMPTY_USAGE_TOTALS;
+}
+
+/**
+ * Groq の文字起こし1回分。audioSeconds は応答の duration（失敗して返らなかった場合は undefined）
+ * partial が true なら途中経過の文字起こしとして内訳にも数える
+ */
+export function recordGroqUsage(audioSeconds: number | undefined, partial = false): void {
+    const billedSeconds =
+        audioSeconds === undefined ? 0 : Math.max(GROQ_MIN_BILLED_SECONDS, toCount(audioSeconds));
+    recordUsage({
+        groqRequests: 1,
+        groqAudioSeconds: billedSeconds,
+        groqPartialRequests: partial ? 1 : 0,
+        groqPartialAudioSeconds: partial ? billedSeconds : 0,
+    });
+}
+
+/** Gemini の呼び出し1回分。metadata は応答の usageMetadata（失敗して返らなかった場合は undefined） */
+export function recordGeminiUsage(metadata: GeminiUsageMetadata | undefined): void {
+    const promptTokens = toCount(metadata?.promptTokenCount);
+    const outputTokens = toCount(metadata?.candidatesTokenCount) + toCount(metadata?.thoughtsTokenCount);
+    recordUsage({
+        geminiRequests: 1,
+        geminiPromptTokens: promptTokens,
+        geminiOutputTokens: outputTokens,
+        geminiTotalTokens: toCount(metadata?.totalTokenCount) || promptTokens + outputTokens,
+    });
+}
+
+/** OpenAI 互換API の呼び出し1回分。usage は応答の usage（失敗した・返さないサーバーでは undefined） */
+export function recordOpenAiUsage(usage: OpenAiUsage | undefined): void {
+    const promptTokens = toCount(usage?.prompt_tokens);
+    const outputTokens = toCount(usage?.completion_tokens);
+    recordUsage({
+        openAiRequests: 1,
+        openAiPromptTokens: promptTokens,
+        openAiOutputTokens: outputTokens,
+        openAiTotalTokens: toCount(usage?.total_tokens) || promptTokens + outputTokens,
+    });
+}
+
+export function setUsageBudget(budget: Partial<UsageBudget>): void {
+    updateLedger((current) => ({ ...current, budget: normalizeBudget({ ...current.budget, ...budget }) }));
+}
+
+/** この面接の記録を消す（月ごとの合計と上限は残す） */
+export function resetSessionUsage(): void {
+    updateLedger((current) => ({ ...current, session: EMPTY_USAGE_TOTALS, sessionStartedAt: Date.now() }));
+}
+
+export function formatAudioMinutes(seconds: number): string {
+    return `${(seconds / 60).toFixed(1)}分`;
+}
+
+export function formatTokens(tokens: number): string {
+    return `${Math.round(tokens).toLocaleString()}トークン`;
+}
+
+function getBudgetTargets(current: UsageLedger) {
+    const month = getMonthUsage(current);
+    const { budget } = current;
+    return [
+        {
+            service: "groq" as const,
+            scope: "session" as const,
+            used: current.session.groqAudioSeconds,
+            limit: budget.sessionGroqMinutes * 60,
+            format: formatAudioMinutes,
+        },
+        {
+            service: "groq" as const,
+            scope: "month" as const,
+            used: month.groqAudioSeconds,
+            limit: budget.monthlyGroqMinutes * 60,
+            format: formatAudioMinutes,
+        },
+        {
+            service: "gemini" as const,
+            scope: "session" as const,
+            used: current.session.geminiTotalTokens,
+            limit: budget.sessionGeminiTokens,
+            format: formatTokens,
+        },
+        {
+            service: "gemini" as const,
+            scope: "month" as const,
+            used: month.geminiTotalTokens,
+            limit: budget.monthlyGeminiTokens,
+            format: formatTokens,
+        },
+        {
+            service: "openai" as const,
+            scope: "session" as const,
+            used: current.session.openAiTotalTokens,
+            limit: budget.sessionOpenAiTokens,
+            format: formatTokens,
+        },
+        {
+            service: "openai" as const,
+            scope: "month" as const,
+            used: month.openAiTotalTokens,
+            limit: budget.monthlyOpenAiTokens,
+            format: formatTokens,
+        },
+    ];
+}
+
+/** 上限に近い・達したものの一覧 */
+export function getBudgetStatuses(current: UsageLedger = getUsageLedger()): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+    for (const { service, scope, used, limit, format } of getBudgetTargets(current)) {
+        if (limit <= 0 || used < limit * WARNING_RATIO) continue;
+
+        const label = `${SCOPE_LABELS[scope]}の${SERVICE_LABELS[service]}`;
+        statuses.push(
+            used >= limit
+                ? {
+                    service,
+                    scope,
+                    level: "blocked",
+                    message: `${label}が上限（${format(limit)}）に達したため、送信を止めています。設定の「使用量と上限」で上限を変更できます。`,
+                }
+                : {
+                    service,
+                    scope,
+                    level: "warning",
+                    message: `${label}が上限の${Math.floor((used / limit) * 100)}%に達しました（${format(used)} / ${format(limit)}）。`,
+                }
+        );
+    }
+    return statuses;
+}
+
+/** 上限に達していて、そのサービスへ送ってはいけない場合はその理由 */
+export function getBlockingBudget(service: UsageService): BudgetStatus | undefined {
+    return getBudgetStatuses().find((status) => status.service === service && status.level === "blocked");
+}
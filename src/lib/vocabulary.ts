@@ -0,0 +1,174 @@
+/**
+ * 用語辞書
+ * - 固有名詞（候補者名・会社名・社内の製品名など）を Whisper の prompt に渡し、認識されやすくする
+ * - 置換ルール（通常の文字列 / 正規表現）で、ログに入る前に誤認識を直す
+ * - 設定画面ではテキストのまま編集し、使う時に解析する（1行に1件）
+ */
+
+import type { CandidateBasicInfo } from "@/hooks/useInterviewStore";
+import { downloadBlob } from "@/lib/export";
+
+export interface VocabularySettings {
+    /** 用語（1行に1語） */
+    terms: string;
+    /** 置換ルール（1行に1件、「誤 => 正」「/正規表現/フラグ => 正」） */
+    replacements: string;
+    /** 候補者の氏名・学校・会社を用語に加えるか */
+    useCandidateInfo: boolean;
+}
+
+export interface ReplacementRule {
+    pattern: RegExp;
+    replacement: string;
+}
+
+export interface ReplacementParseResult {
+    rules: ReplacementRule[];
+    /** 解析できなかった行（1始まりの行番号） */
+    errors: { line: number; message: string }[];
+}
+
+export const DEFAULT_VOCABULARY: VocabularySettings = {
+    terms: "",
+    replacements: "",
+    useCandidateInfo: true,
+};
+
+const RULE_SEPARATOR = "=>";
+const REGEX_RULE = /^\/(.+)\/([a-z]*)$/;
+/** Whisper の prompt は先頭の約224トークンしか使われないため、それに収まる程度に切る */
+const MAX_PROMPT_LENGTH = 200;
+
+export function normalizeVocabulary(saved: Partial<VocabularySettings> | undefined): VocabularySettings {
+    return {
+        terms: typeof saved?.terms === "string" ? saved.terms : DEFAULT_VOCABULARY.terms,
+        replacements:
+            typeof saved?.replacements === "string" ? saved.replacements : DEFAULT_VOCABULARY.replacements,
+        useCandidateInfo:
+            typeof saved?.useCandidateInfo === "boolean" ? saved.useCandidateInfo : DEFAULT_VOCABULARY.useCandidateInfo,
+    };
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/).map((line) => line.trim());
+}
+
+/** 用語を1行ずつ取り出す（空行と # で始まるコメントは除く） */
+export function parseTerms(text: string): string[] {
+    return splitLines(text).filter((line) => line && !line.startsWith("#"));
+}
+
+/** 候補者の基本情報から用語にするもの */
+export function getCandidateTerms(info: CandidateBasicInfo | undefined): string[] {
+    if (!info) return [];
+    return [info.name, info.schoolName, info.facultyDepartment, info.currentCompany]
+        .map((value) => value?.trim() ?? "")
+        .filter(Boolean);
+}
+
+/**
+ * Whisper の prompt に渡す文字列
+ * 重複を除き、前にある用語（辞書に書いた順・候補者情報の順）を優先して長さの上限まで並べる
+ */
+export function buildWhisperPrompt(
+    vocabulary: VocabularySettings,
+    candidateInfo: CandidateBasicInfo | undefined
+): string {
+    const terms = [
+        ...(vocabulary.useCandidateInfo ? getCandidateTerms(candidateInfo) : []),
+        ...parseTerms(vocabulary.terms),
+    ];
+
+    const selected: string[] = [];
+    let length = 0;
+    for (const term of new Set(terms)) {
+        if (length + term.length + 1 > MAX_PROMPT_LENGTH) break;
+        selected.push(term);
+        length += term.length + 1;
+    }
+    return selected.join("、");
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** 置換ルールを解析する。正規表現として不正な行はエラーとして返し、残りのルールは使う */
+export function parseReplacementRules(text: string): ReplacementParseResult {
+    const rules: ReplacementRule[] = [];
+    const errors: ReplacementParseResult["errors"] = [];
+
+    splitLines(text).forEach((line, index) => {
+        if (!line || line.startsWith("#")) return;
+
+        const separatorIndex = line.indexOf(RULE_SEPARATOR);
+        if (separatorIndex < 0) {
+            errors.push({ line: index + 1, message: `「${RULE_SEPARATOR}」がありません` });
+            return;
+        }
+
+        const source = line.slice(0, separatorIndex).trim();
+        const replacement = line.slice(separatorIndex + RULE_SEPARATOR.length).trim();
+        if (!source) {
+            errors.push({ line: index + 1, message: "置換前の文字列が空です" });
+            return;
+        }
+
+        const regexMatch = source.match(REGEX_RULE);
+        try {
+            const pattern = regexMatch
+                ? new RegExp(regexMatch[1], regexMatch[2].includes("g") ? regexMatch[2] : `${regexMatch[2]}g`)
+                : new RegExp(escapeRegExp(source), "g");
+            rules.push({ pattern, replacement });
+        } catch (error) {
+            errors.push({
+                line: index + 1,
+                message: `正規表現が不正です（${error instanceof Error ? error.message : String(error)}）`,
+            });
+        }
+    });
+
+    return { rules, errors };
+}
+
+/** 置換ルールを上から順に適用する */
+export function applyReplacements(text: string, rules: ReplacementRule[]): string {
+    return rules.reduce((result, rule) => result.replace(rule.pattern, rule.replacement), text).trim();
+}
+
+/**
+ * 読み込んだ辞書ファイルを取り込む
+ * 「=>」を含む行は置換ルール、それ以外は用語として、今の辞書の後ろに追加する
+ */
+export function mergeVocabularyImport(current: VocabularySettings, imported: string): VocabularySettings {
+    const terms: string[] = [];
+    const replacements: string[] = [];
+    for (const line of splitLines(imported)) {
+        if (!line || line.startsWith("#")) continue;
+        (line.includes(RULE_SEPARATOR) ? replacements : terms).push(line);
+    }
+
+    const append = (text: string, lines: string[]) =>
+        lines.length === 0 ? text : [text.trimEnd(), ...lines].filter(Boolean).join("\n");
+
+    return {
+        ...current,
+        terms: append(current.terms, terms),
+        replacements: append(current.replacements, replacements),
+    };
+}
+
+/** 辞書をファイルに書き出す（mergeVocabularyImport でそのまま読み込める形式） */
+export function downloadVocabulary(vocabulary: VocabularySettings): void {
+    const text = [
+        "# 用語",
+        ...parseTerms(vocabulary.terms),
+        "",
+        "# 置換ルール",
+        ...splitLines(vocabulary.replacements).filter((line) => line && !line.startsWith("#")),
+        "",
+    ].join("\n");
+
+    const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+    downloadBlob(blob, "gijiroku_vocabulary.txt");
+}
@@ -0,0 +1,108 @@
+/**
+ * 音声区間検出（VAD）によるチャンク分割
+ * - レベル計測ノードのフレームを受け取り、発話の切れ目でチャンクを区切る
+ * - 最短・最長のチャンク長を守り、無音だけのチャンクは破棄対象にする
+ */
+
+import type { AudioLevelFrame } from "@/lib/audio-level-meter";
+
+export interface VoiceActivityOptions {
+    /** チャンクの最短長（ms）。これより短い間は無音でも区切らない */
+    minChunkMs: number;
+    /** チャンクの最長長（ms）。発話が続いていても強制的に区切る */
+    maxChunkMs: number;
+    /** この長さの無音が続いたら発話の切れ目とみなす（ms） */
+    pauseMs: number;
+    /** チャンクを送信対象とするのに必要な発話の合計長（ms） */
+    minVoicedMs: number;
+    /** 発話のない状態がこれだけ続いたらチャンクを捨てて取り直す（ms） */
+    idleResetMs: number;
+}
+
+/** none: 継続 / emit: 区切って送信 / discard: 区切って破棄（無音） */
+export type ChunkBoundary = "none" | "emit" | "discard";
+
+export const DEFAULT_VOICE_ACTIVITY_OPTIONS: VoiceActivityOptions = {
+    minChunkMs: 2000,
+    maxChunkMs: 15000,
+    pauseMs: 700,
+    minVoicedMs: 300,
+    idleResetMs: 3000,
+};
+
+// 発話判定のしきい値（増幅後の RMS）
+const MIN_SPEECH_RMS = 0.01;
+const NOISE_FLOOR_RATIO = 3;
+const MIN_NOISE_FLOOR = 0.001;
+const NOISE_FLOOR_RISE = 0.0005;
+
+export class VoiceActivityChunker {
+    private readonly options: VoiceActivityOptions;
+    private elapsedMs = 0;
+    private voicedMs = 0;
+    private silenceMs = 0;
+    private noiseFloor = MIN_NOISE_FLOOR;
+    private speaking = false;
+
+    constructor(options?: Partial<VoiceActivityOptions>) {
+        this.options = { ...DEFAULT_VOICE_ACTIVITY_OPTIONS, ...options };
+    }
+
+    /** フレームが発話かどうかを判定（背景ノイズの推定も更新する） */
+    isSpeech(frame: AudioLevelFrame): boolean {
+        if (frame.rms < this.noiseFloor) {
+            this.noiseFloor = Math.max(MIN_NOISE_FLOOR, frame.rms);
+        } else {
+            this.noiseFloor += (frame.rms - this.noiseFloor) * NOISE_FLOOR_RISE;
+        }
+        return frame.rms > Math.max(MIN_SPEECH_RMS, this.noiseFloor * NOISE_FLOOR_RATIO);
+    }
+
+    /** 1フレーム分を入力し、チャンクを区切るべきかを返す */
+    push(frame: AudioLevelFrame): ChunkBoundary {
+        const speech = this.isSpeech(frame);
+        this.speaking = speech;
+        this.elapsedMs += frame.durationMs;
+        if (speech) {
+            this.voicedMs += frame.durationMs;
+            this.silenceMs = 0;
+        } else {
+            this.silenceMs += frame.durationMs;
+        }
+
+        const { minChunkMs, maxChunkMs, pauseMs, idleResetMs } = this.options;
+        let boundary: ChunkBoundary = "none";
+
+        if (!this.hasVoice()) {
+            if (this.elapsedMs >= maxChunkMs || (this.elapsedMs >= idleResetMs && this.silenceMs >= pauseMs)) {
+                boundary = "discard";
+            }
+        } else if (this.elapsedMs >= maxChunkMs) {
+            boundary = "emit";
+        } else if (this.elapsedMs >= minChunkMs && this.silenceMs >= pauseMs) {
+            boundary = "emit";
+        }
+
+        if (boundary !== "none") {
+            this.reset();
+        }
+        return boundary;
+    }
+
+    /** 直近のフレームが発話だったか */
+    isSpeaking(): boolean {
+        return this.speaking;
+    }
+
+    /** 現在のチャンクに送信に足る発話が含まれているか */
+    hasVoice(): boolean {
+        return this.voicedMs >= this.options.minVoicedMs;
+    }
+
+    /** チャンクの計測をリセット（背景ノイズの推定は保持） */
+    reset(): void {
+        this.elapsedMs = 0;
+        this.voicedMs = 0;
+        this.silenceMs = 0;
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * 話者分離に使う声の特徴
+ * - 有声フレームの対数メルスペクトルの形と、自己相関で求めた声の高さを1チャンク分まとめる
+ * - 計算は重いため、話者分離では Web Worker（speaker-embedding.worker.ts）で求める
+ */
+
+import type { DecodedAudio } from "@/lib/audio-import";
+
+/** 1チャンクの声の特徴 */
+export interface VoiceEmbedding {
+    /** 音量を除いた対数メルスペクトルの平均（スペクトルの形） */
+    spectrum: Float32Array;
+    /** 声の高さの中央値（Hz）。推定できなければ null */
+    pitchHz: number | null;
+}
+
+/** Worker に送る依頼（samples は転送する） */
+export interface VoiceEmbeddingRequest {
+    id: number;
+    samples: Float32Array;
+    sampleRate: number;
+}
+
+/** Worker から届く応答 */
+export type VoiceEmbeddingResponse =
+    | { id: number; embedding: VoiceEmbedding | null }
+    | { id: number; error: string };
+
+const FRAME_SIZE = 512;
+const HOP_SIZE = 256;
+const MEL_BANDS = 20;
+const MIN_MEL_HZ = 80;
+const MAX_MEL_HZ = 7600;
+/** これより静かなフレームは特徴に使わない */
+const VOICED_FRAME_RMS = 0.01;
+/** 特徴を求めるのに必要な有声フレーム数（約0.8秒） */
+const MIN_VOICED_FRAMES = 50;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+/** 自己相関のピークがこれより弱いフレームは声の高さを推定しない */
+const PITCH_CORRELATION_THRESHOLD = 0.5;
+
+let melFilters: { sampleRate: number; filters: Float32Array[] } | null = null;
+let hannWindow: Float32Array | null = null;
+
+function hzToMel(hz: number): number {
+    return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+    return 700 * (10 ** (mel / 2595) - 1);
+}
+
+function getHannWindow(): Float32Array {
+    if (!hannWindow) {
+        hannWindow = new Float32Array(FRAME_SIZE);
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            hannWindow[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+        }
+    }
+    return hannWindow;
+}
+
+/** 三角窓のメルフィルタ（パワースペクトルのビンごとの重み） */
+function getMelFilters(sampleRate: number): Float32Array[] {
+    if (melFilters?.sampleRate !== sampleRate) {
+        const binCount = FRAME_SIZE / 2 + 1;
+        const minMel = hzToMel(MIN_MEL_HZ);
+        const maxMel = hzToMel(Math.min(MAX_MEL_HZ, sampleRate / 2));
+        const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+            (melToHz(minMel + ((maxMel - minMel) * i) / (MEL_BANDS + 1)) * FRAME_SIZE) / sampleRate
+        );
+
+        const filters = Array.from({ length: MEL_BANDS }, (_, band) => {
+            const filter = new Float32Array(binCount);
+            const [left, center, right] = [edges[band], edges[band + 1], edges[band + 2]];
+            for (let bin = 0; bin < binCount; bin++) {
+                if (bin > left && bin <= center) filter[bin] = (bin - left) / (center - left);
+                else if (bin > center && bin < right) filter[bin] = (right - bin) / (right - center);
+            }
+            return filter;
+        });
+        melFilters = { sampleRate, filters };
+    }
+    return melFilters.filters;
+}
+
+/** 基数2の FFT（その場で書き換える） */
+function fft(real: Float32Array, imag: Float32Array): void {
+    const n = real.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < size / 2; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const a = start + k;
+                const b = a + size / 2;
+                const tReal = real[b] * cos - imag[b] * sin;
+                const tImag = real[b] * sin + imag[b] * cos;
+                real[b] = real[a] - tReal;
+                imag[b] = imag[a] - tImag;
+                real[a] += tReal;
+                imag[a] += tImag;
+            }
+        }
+    }
+}
+
+/** 自己相関で声の高さを推定する（有声音らしくなければ null） */
+function estimatePitch(frame: Float32Array, sampleRate: number): number | null {
+    const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+    const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+
+    let energy = 0;
+    for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+    if (energy === 0) return null;
+
+    let bestLag = 0;
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = 0; i + lag < frame.length; i++) sum += frame[i] * frame[i + lag];
+        const correlation = sum / energy;
+        if (correlation > bestCorrelation) {
+            bestCorrelation = correlation;
+            bestLag = lag;
+        }
+    }
+    return bestCorrelation >= PITCH_CORRELATION_THRESHOLD ? sampleRate / bestLag : null;
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** デコード済みの音声から声の特徴を求める（発話が短すぎる場合は null） */
+export function extractVoiceEmbedding(audio: Pick<DecodedAudio, "samples" | "sampleRate">): VoiceEmbedding | null {
+    const { samples, sampleRate } = audio;
+    const hann = getHannWindow();
+    const filters = getMelFilters(sampleRate);
+    const real = new Float32Array(FRAME_SIZE);
+    const imag = new Float32Array(FRAME_SIZE);
+    const frame = new Float32Array(FRAME_SIZE);
+    const spectrum = new Float32Array(MEL_BANDS);
+    const pitches: number[] = [];
+    let voicedFrames = 0;
+
+    for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+        let sum = 0;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            frame[i] = samples[start + i];
+            sum += frame[i] * frame[i];
+        }
+        if (Math.sqrt(sum / FRAME_SIZE) < VOICED_FRAME_RMS) continue;
+
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            real[i] = frame[i] * hann[i];
+            imag[i] = 0;
+        }
+        fft(real, imag);
+
+        // 音量の違いで別人と判定しないよう、フレームごとに対数エネルギーの平均を引く
+        const logMel = filters.map((filter) => {
+            let energy = 0;
+            for (let bin = 0; bin < filter.length; bin++) {
+                if (filter[bin] > 0) energy += filter[bin] * (real[bin] * real[bin] + imag[bin] * imag[bin]);
+            }
+            return Math.log(energy + 1e-10);
+        });
+        const mean = logMel.reduce((total, value) => total + value, 0) / MEL_BANDS;
+        logMel.forEach((value, band) => {
+            spectrum[band] += value - mean;
+        });
+        voicedFrames++;
+
+        const pitch = estimatePitch(frame, sampleRate);
+        if (pitch !== null) pitches.push(pitch);
+    }
+
+    if (voicedFrames < MIN_VOICED_FRAMES) return null;
+
+    for (let band = 0; band < MEL_BANDS; band++) {
+        spectrum[band] /= voicedFrames;
+    }
+    return { spectrum, pitchHz: median(pitches) };
+}
@@ -0,0 +1,103 @@
+/**
+ * MediaRecorder が書き出す WebM の切り出し
+ * - MediaRecorder の WebM には Cues（シーク用の索引）がなく、Chrome では再生位置を指定できない
+ * - Cluster の先頭を探し、ヘッダー（EBML・Info・Tracks）に指定区間の Cluster をつないで、途中から始まる WebM を作る
+ * - TimecodeScale は MediaRecorder の既定値（1ms）を前提にする
+ */
+
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const TIMECODE_ID = 0xe7;
+
+export interface WebmCluster {
+    /** ファイル先頭からのバイト位置 */
+    offset: number;
+    /** Cluster の開始時刻（録音開始からの ms） */
+    timecodeMs: number;
+}
+
+export interface WebmSlice {
+    blob: Blob;
+    /** 切り出した先頭の時刻（録音開始からの ms） */
+    startMs: number;
+}
+
+/** EBML の可変長整数を読む。読めない場合は null */
+function readVint(bytes: Uint8Array, position: number): { length: number; value: number } | null {
+    const first = bytes[position];
+    if (first === undefined || first === 0) return null;
+
+    let length = 1;
+    while (!(first & (0x80 >> (length - 1)))) {
+        length++;
+    }
+    if (position + length > bytes.length) return null;
+
+    let value = first & (0xff >> length);
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + bytes[position + i];
+    }
+    return { length, value };
+}
+
+function isClusterAt(bytes: Uint8Array, position: number): boolean {
+    return CLUSTER_ID.every((byte, index) => bytes[position + index] === byte);
+}
+
+/**
+ * Cluster の位置と開始時刻を先頭から順に探す
+ * 音声データの中に同じバイト列が現れることがあるため、直後に Timecode があり時刻が戻らないものだけを採用する
+ */
+export function findWebmClusters(bytes: Uint8Array): WebmCluster[] {
+    const clusters: WebmCluster[] = [];
+
+    for (let i = 0; i + CLUSTER_ID.length < bytes.length; i++) {
+        if (!isClusterAt(bytes, i)) continue;
+
+        const size = readVint(bytes, i + CLUSTER_ID.length);
+        if (!size) continue;
+
+        const timecodePosition = i + CLUSTER_ID.length + size.length;
+        if (bytes[timecodePosition] !== TIMECODE_ID) continue;
+
+        const timecodeSize = readVint(bytes, timecodePosition + 1);
+        if (!timecodeSize || timecodeSize.value < 1 || timecodeSize.value > 8) continue;
+
+        const valuePosition = timecodePosition + 1 + timecodeSize.length;
+        if (valuePosition + timecodeSize.value > bytes.length) continue;
+
+        let timecodeMs = 0;
+        for (let j = 0; j < timecodeSize.value; j++) {
+            timecodeMs = timecodeMs * 256 + bytes[valuePosition + j];
+        }
+        const previous = clusters[clusters.length - 1];
+        if (previous && timecodeMs < previous.timecodeMs) continue;
+
+        clusters.push({ offset: i, timecodeMs });
+        i = valuePosition + timecodeSize.value - 1;
+    }
+
+    return clusters;
+}
+
+/**
+ * startMs〜endMs を含む Cluster だけを切り出した WebM を作る
+ * Cluster が見つからない（WebM でない・壊れている）場合は null
+ */
+export function sliceWebm(bytes: Uint8Array<ArrayBuffer>, startMs: number, endMs: number, mimeType: string): WebmSlice | null {
+    const clusters = findWebmClusters(bytes);
+    if (clusters.length === 0) return null;
+
+    let first = 0;
+    while (first + 1 < clusters.length && clusters[first + 1].timecodeMs <= startMs) {
+        first++;
+    }
+    const next = clusters.findIndex((cluster, index) => index > first && cluster.timecodeMs > endMs);
+    const end = next >= 0 ? clusters[next].offset : bytes.length;
+
+    return {
+        blob: new Blob([bytes.subarray(0, clusters[0].offset), bytes.subarray(clusters[first].offset, end)], {
+            type: mimeType,
+        }),
+        startMs: clusters[first].timecodeMs,
+    };
+}
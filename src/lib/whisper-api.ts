@@ -0,0 +1,183 @@
+/**
+ * OpenAI 互換の /audio/transcriptions API 呼び出し
+ * Groq・セルフホストの faster-whisper / whisper.cpp サーバーなど、同じプロトコルを話すサービスで共通に使う
+ */
+
+import {
+  DEFAULT_HALLUCINATION_PHRASES,
+  filterTranscriptionSegments,
+  parseHallucinationPhrases,
+  type WhisperSegment,
+} from "@/lib/hallucination-filter";
+import { normalizeDetectedLanguage, type RecognitionLanguage } from "@/lib/recognition-language";
+import type { SpeakerId } from "@/lib/speakers";
+
+/**
+ * 文字起こしの失敗
+ * retryable が true のもの（通信断・429・5xx）は、時間を置いて再試行すれば成功する見込みがある
+ */
+export class TranscriptionError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+  /** サーバーが retry-after で指定した待ち時間（ms） */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { retryable: boolean; status?: number; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = "TranscriptionError";
+    this.retryable = options.retryable;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** 認識した言語（ISO 639-1）。サーバーが返さない場合は指定した言語 */
+  language?: string;
+  /** 発話の開始位置（送った音声の先頭からの ms）。区間情報がない場合は未設定 */
+  startMs?: number;
+  /** 発話の終了位置（ms） */
+  endMs?: number;
+  /** 話者ID（CH2 を話者分離した場合） */
+  speaker?: SpeakerId;
+}
+
+export interface WhisperRequest {
+  /** API のベースURL（例: https://api.groq.com/openai/v1） */
+  baseUrl: string;
+  /** 未設定なら Authorization ヘッダーを付けない（認証なしのセルフホスト用） */
+  apiKey?: string;
+  model: string;
+  /** auto の場合は language を送らず、Whisper に判定させる */
+  language: RecognitionLanguage;
+  /** 認識させたい用語（用語辞書から作る。空なら送らない） */
+  prompt?: string;
+  /** 区間ごとに除く定型句（未指定なら既定の一覧） */
+  hallucinationPhrases?: string[];
+  /** エラーメッセージに使うサービス名 */
+  serviceName: string;
+  /** 途中経過の文字起こし。除いた区間を一覧に載せない */
+  partial?: boolean;
+  /**
+   * 送ったリクエストごとに1回呼ぶ。使用量の記録に使う
+   * seconds はサーバーが処理した音声の長さ（失敗した・応答が duration を返さなかった場合は undefined）
+   */
+  onRequestSent?: (seconds: number | undefined) => void;
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** API は拡張子で形式を判定するため、Blob の MIME タイプに合わせたファイル名を付ける */
+function getUploadFileName(audioBlob: Blob): string {
+  if (audioBlob.type.includes("wav")) return "audio.wav";
+  if (audioBlob.type.includes("mp4") || audioBlob.type.includes("m4a")) return "audio.m4a";
+  if (audioBlob.type.includes("mpeg")) return "audio.mp3";
+  if (audioBlob.type.includes("ogg")) return "audio.ogg";
+  return "audio.webm";
+}
+
+/** 用語辞書・ハルシネーション対策など、設定画面から渡す調整 */
+export type WhisperTuning = Pick<WhisperRequest, "prompt" | "hallucinationPhrases">;
+
+/** 末尾のスラッシュを除いたベースURL */
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Whisper で文字起こし
+ * 無音・ハルシネーションは null、通信や API のエラーは TranscriptionError を投げる
+ */
+export async function requestWhisperTranscription(
+  audioBlob: Blob,
+  request: WhisperRequest
+): Promise<TranscriptionResult | null> {
+  const formData = new FormData();
+  formData.append("file", audioBlob, getUploadFileName(audioBlob));
+  formData.append("model", request.model);
+  if (request.language !== "auto") {
+    formData.append("language", request.language);
+  }
+  if (request.prompt) {
+    formData.append("prompt", request.prompt);
+  }
+  // 判定した言語と、区間ごとの確信度を受け取るため verbose_json を使う
+  formData.append("response_format", "verbose_json");
+
+  let audioSeconds: number | undefined;
+  let data: { text?: string; language?: string; duration?: number; segments?: WhisperSegment[] };
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${normalizeBaseUrl(request.baseUrl)}/audio/transcriptions`, {
+        method: "POST",
+        headers: request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : undefined,
+        body: formData,
+      });
+    } catch (error) {
+      throw new TranscriptionError(
+        `通信エラー: ${error instanceof Error ? error.message : String(error)}`,
+        { retryable: true }
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${request.serviceName} error:`, response.status, errorText);
+      throw new TranscriptionError(`${request.serviceName}エラー (${response.status}): ${errorText}`, {
+        retryable: isRetryableStatus(response.status),
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
+    }
+
+    try {
+      data = await response.json();
+    } catch {
+      throw new TranscriptionError(`${request.serviceName}の応答を解析できませんでした。`, {
+        retryable: true,
+      });
+    }
+    audioSeconds = typeof data.duration === "number" ? data.duration : undefined;
+  } finally {
+    // 失敗したリクエストや、無音として捨てる応答も数える
+    request.onRequestSent?.(audioSeconds);
+  }
+
+  const { text, startMs, endMs } = filterTranscriptionSegments(
+    data.text?.trim() ?? "",
+    Array.isArray(data.segments) ? data.segments : undefined,
+    request.hallucinationPhrases ?? parseHallucinationPhrases(DEFAULT_HALLUCINATION_PHRASES),
+    request.serviceName,
+    !request.partial
+  );
+
+  if (!text) return null;
+
+  return {
+    text,
+    language:
+      normalizeDetectedLanguage(data.language) ??
+      (request.language === "auto" ? undefined : request.language),
+    startMs,
+    endMs,
+  };
+}